@@ -9,8 +9,20 @@ import express from 'express';
 import { CosmosClient } from '@azure/cosmos';
 import { DefaultAzureCredential } from '@azure/identity';
 import { initAuthMiddleware } from './utils/auth/AuthMiddleware';
+import { initIdempotency } from './utils/http/Idempotency';
+import { initInvitations } from './utils/auth/Invitations';
+import { initPermissions } from './utils/auth/Permissions';
+import { initMemberships, stopMembershipSweeper } from './utils/auth/Memberships';
 import { initProjectRoutes } from './routes/Projects';
 import { initProjectMemberRoutes } from './routes/ProjectMembers';
+import { initProjectInvitationRoutes } from './routes/ProjectInvitations';
+import { initProjectAccessRequestRoutes } from './routes/ProjectAccessRequests';
+import { initProjectGroupRoutes } from './routes/ProjectGroups';
+import { initProjectHistoryRoutes } from './routes/ProjectHistory';
+import { initCustomFieldRoutes } from './routes/CustomFields';
+import { initRoleRoutes } from './routes/Roles';
+import { initClientAdminRoutes } from './routes/ClientAdmins';
+import { initMeRoutes } from './routes/Me';
 import { initHealthRoutes } from './routes/HealthCheck';
 import { CacheFactory } from './utils/cache/CacheFactory';
 import { setCacheInstance, getCacheStats } from './utils/cache/CacheHelpers';
@@ -26,11 +38,12 @@ const app = express();
 // CORS
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['ETag', 'Idempotent-Replayed']
 }));
 
 // Body parser
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', type: ['application/json', 'application/*+json'] }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Telemetry middleware (must be after body parser, before routes)
@@ -91,11 +104,23 @@ async function startServer() {
 
     // Initialize middleware and routes
     initAuthMiddleware(container);
+    initPermissions(container);
+    initIdempotency(container);
+    initInvitations(container);
+    initMemberships(container);
 
     // Routes
     app.use('/api', initHealthRoutes(container));
     app.use('/api/projects', initProjectRoutes(container));
     app.use('/api', initProjectMemberRoutes(container));
+    app.use('/api', initProjectInvitationRoutes(container));
+    app.use('/api', initProjectAccessRequestRoutes(container));
+    app.use('/api', initProjectGroupRoutes(container));
+    app.use('/api', initProjectHistoryRoutes(container));
+    app.use('/api', initCustomFieldRoutes(container));
+    app.use('/api', initRoleRoutes(container));
+    app.use('/api', initClientAdminRoutes(container));
+    app.use('/api', initMeRoutes(container));
 
     // Cache stats endpoint (development only)
     if (process.env.NODE_ENV === 'development') {
@@ -136,6 +161,8 @@ async function shutdown() {
     environment: process.env.NODE_ENV || 'development'
   });
 
+  stopMembershipSweeper();
+
   // Flush and shutdown telemetry  
   const cache = require('./utils/cache/cacheHelpers').getCacheInstance();
   if (cache) {
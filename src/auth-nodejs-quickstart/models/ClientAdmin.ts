@@ -0,0 +1,14 @@
+// Client-wide authority over a client's custom fields and admins, and the right to create
+// projects under it. Stored in the client's "_admins" partition; project roles never grant it.
+export interface ClientAdmin {
+  id: string;              // Same as userId
+  docType: "clientAdmin";
+  client_name: string;
+  slug: string;            // Always CLIENT_ADMINS_PARTITION
+  userId: string;
+  email: string;
+  userName: string;
+  grantedAt: string;
+  grantedBy: string;       // User ID; the creator of a client's first project grants it to themselves
+  _etag?: string;
+}
@@ -0,0 +1,23 @@
+export type CustomFieldType = 
+  | 'string' 
+  | 'number' 
+  | 'boolean' 
+  | 'date';
+
+// Field a client defines for its projects; values live in Project.customFields[key]
+export interface CustomFieldDefinition {
+  id: string;              // Same as key, so a key can only be defined once per client
+  docType: "customFieldDefinition";
+  client_name: string;
+  slug: string;            // Always CUSTOM_FIELDS_PARTITION
+  key: string;
+  label: string;
+  description?: string;
+  type: CustomFieldType;
+  required: boolean;
+  values?: Array<string | number>;   // Allowed values; any value of the type when missing
+  _etag?: string;          // Cosmos DB version, exposed as the ETag header
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+}
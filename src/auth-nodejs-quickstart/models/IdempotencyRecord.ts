@@ -0,0 +1,10 @@
+import { IdempotencyRecord } from "../utils/cache/CacheInterface";
+
+// Idempotency record kept in Cosmos DB, in a partition of its own per user
+export interface IdempotencyDocument extends IdempotencyRecord {
+  id: string;              // Hash of the Idempotency-Key
+  docType: "idempotencyRecord";
+  client_name: string;     // Always IDEMPOTENCY_PARTITION
+  slug: string;            // User ID
+  ttl: number;             // Seconds until Cosmos removes the record
+}
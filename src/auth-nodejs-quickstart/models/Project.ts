@@ -1,3 +1,5 @@
+import { ProjectRole } from "./ProjectMember";
+
 export interface ProjectDetails {
   projectNumber: string;
   name: string;
@@ -15,6 +17,18 @@ export interface ProjectExtra {
   uploads: string;
 }
 
+// GeoJSON Point used for Cosmos DB spatial queries ([longitude, latitude])
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
+export type ProjectStatus = 
+  | 'draft' 
+  | 'active' 
+  | 'on_hold' 
+  | 'archived';
+
 export interface Project {
   id: string;
   docType: "project";
@@ -25,6 +39,7 @@ export interface Project {
   icon: string;
   lat: number;
   lon: number;
+  location?: GeoPoint;     // Derived from lat/lon on every write
   client: string;
   projectNumber: string;
   author: string;
@@ -34,6 +49,59 @@ export interface Project {
   ownerId: string;
   createdAt: string;
   updatedAt: string;
+  _etag?: string;          // Cosmos DB version, exposed as the ETag header
+  revision?: number;       // Latest revision number, see ProjectRevision
+  status?: ProjectStatus;  // Lifecycle status; missing means active
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  isTemplate?: boolean;    // Anyone with a project on the same client can clone it
+  clonedFrom?: {
+    projectId: string;
+    client_name: string;
+    slug: string;
+  };
+  deletedAt?: string;      // Set when the project is in the trash
+  deletedBy?: string;
+  ttl?: number;            // Seconds until Cosmos purges a deleted project
   details: ProjectDetails;
   extra: ProjectExtra;
+  tags?: string[];         // Trimmed, lower-cased, without duplicates
+  customFields?: Record<string, string | number | boolean>;  // Validated against the client's CustomFieldDefinitions
+}
+
+// Left in a project's old partition after a move, so old URLs still resolve
+export interface ProjectRedirect {
+  id: string;              // Same id as the moved project
+  docType: "projectRedirect";
+  client_name: string;
+  slug: string;
+  projectId: string;
+  target: {
+    client_name: string;
+    slug: string;
+  };
+  movedAt: string;
+  movedBy: string;
+}
+
+// Number of projects sharing a value; value is null for projects without one
+export interface ProjectCount {
+  value: string | null;
+  count: number;
+}
+
+// Aggregates over the projects a user belongs to, see GET /api/projects/stats
+export interface ProjectStats {
+  total: number;
+  byBuildingType: ProjectCount[];
+  byCountry: ProjectCount[];
+  byConstructionYear: ProjectCount[];
+  byRole: ProjectCount[];
+  generatedAt: string;
+}
+
+// Project as returned by the project list, with the caller's role
+export interface ProjectListItem extends Project {
+  role: ProjectRole;
+  favorite: boolean;       // In the caller's favorites
 }
\ No newline at end of file
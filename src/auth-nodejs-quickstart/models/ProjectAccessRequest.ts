@@ -0,0 +1,30 @@
+import { ProjectRole } from './ProjectMember';
+
+export type AccessRequestStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected';
+
+// A request by a signed-in user for access to a project they cannot open.
+// Kept in the project's partition, so it moves and is trashed with the project.
+export interface ProjectAccessRequest {
+  id: string;
+  docType: "projectAccessRequest";
+  client_name: string;
+  slug: string;
+  projectId: string;
+  userId: string;          // Entra Object ID of the requester
+  email: string;
+  userName: string;
+  role: ProjectRole;       // Requested role; the approver may grant another one
+  message?: string;        // From the requester
+  status: AccessRequestStatus;
+  createdAt: string;
+  respondedAt?: string;    // When the request was approved or rejected
+  respondedBy?: string;    // User ID of whoever approved or rejected it
+  responseMessage?: string;
+  _etag?: string;
+  deletedAt?: string;      // Set while the project is in the trash
+  deletedBy?: string;
+  ttl?: number;
+}
@@ -0,0 +1,20 @@
+import { ProjectRole } from './ProjectMember';
+
+// Grants a project role to every member of an Entra security group.
+// Kept in the project's partition, so it moves and is trashed with the project.
+export interface ProjectGroupGrant {
+  id: string;              // `${projectId}:group:${groupId}`, one grant per group
+  docType: "projectGroupGrant";
+  client_name: string;
+  slug: string;
+  projectId: string;
+  groupId: string;         // Entra group object ID, as in the token's groups claim
+  displayName?: string;    // For display only; not checked against Entra
+  role: ProjectRole;
+  grantedBy: string;       // User ID of the owner who last changed the grant
+  grantedAt: string;
+  _etag?: string;
+  deletedAt?: string;      // Set while the project is in the trash
+  deletedBy?: string;
+  ttl?: number;
+}
@@ -0,0 +1,32 @@
+import { ProjectRole } from './ProjectMember';
+
+// Stored status; a pending invitation past its expiresAt is reported as 'expired'
+export type InvitationStatus =
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'revoked'
+  | 'expired';
+
+// An invitation to join a project, addressed to an email address.
+// Kept in the project's partition, so it moves and is trashed with the project.
+export interface ProjectInvitation {
+  id: string;
+  docType: "projectInvitation";
+  client_name: string;
+  slug: string;
+  projectId: string;
+  email: string;           // Lower-cased; matched against the email claim of the token
+  role: ProjectRole;
+  status: Exclude<InvitationStatus, 'expired'>;
+  invitedBy: string;       // User ID of the owner who sent the invitation
+  invitedByName: string;
+  createdAt: string;
+  expiresAt: string;
+  respondedAt?: string;    // When the invitation was accepted, declined or revoked
+  respondedBy?: string;    // User ID of whoever accepted, declined or revoked it
+  _etag?: string;
+  deletedAt?: string;      // Set while the project is in the trash
+  deletedBy?: string;
+  ttl?: number;
+}
@@ -8,13 +8,23 @@ export interface ProjectMember {
   email: string;
   userName: string;    
   role: ProjectRole;
+  validFrom?: string;      // No access before this time (ISO 8601)
+  expiresAt?: string;      // No access from this time on; the sweeper then removes the membership
+  _etag?: string;          // Cosmos DB version, exposed as the ETag header
+  deletedAt?: string;      // Set while the project is in the trash
+  deletedBy?: string;
+  ttl?: number;
 }
 
-export type ProjectRole = 
+// Roles every client has; their permissions are fixed (see utils/auth/Permissions)
+export type BuiltInRole = 
   | 'owner' 
   | 'editor' 
   | 'viewer';
 
+// A built-in role or the name of a role defined for the project's client (RoleDefinition)
+export type ProjectRole = BuiltInRole | string;
+
 // For caching project access
 export interface CachedProjectAccess {
   userId: string;
@@ -22,6 +32,7 @@ export interface CachedProjectAccess {
   role: ProjectRole;
   client_name: string;
   slug: string;
+  expiresAt?: string;      // End of a time-limited membership; caps the cache TTL
   cachedAt: number;
 }
 
@@ -31,4 +42,6 @@ export interface TokenUser {
   email: string;           // From email claim
   name: string;            // From name claim
   tenantId: string;        // From tid claim
+  groups?: string[];       // Group object IDs from the groups claim
+  groupsOverage?: boolean; // Too many groups for the token; look them up in Microsoft Graph
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { TokenUser } from "./ProjectMember";
+
+// One changed field, addressed by JSON Pointer. A missing before/after means the field was added/removed.
+export interface FieldChange {
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+export type RevisionAction = 
+  | 'create' 
+  | 'update' 
+  | 'revert';
+
+// Immutable record of one write to a project, stored in the project's partition
+export interface ProjectRevision {
+  id: string;              // `${projectId}:rev:${revision}`
+  docType: "projectRevision";
+  client_name: string;
+  slug: string;
+  projectId: string;
+  revision: number;        // Matches Project.revision after the write
+  action: RevisionAction;
+  revertedTo?: number;     // Set when action is 'revert'
+  changes: FieldChange[];
+  editor: TokenUser;
+  createdAt: string;
+}
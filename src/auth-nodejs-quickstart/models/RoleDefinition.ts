@@ -0,0 +1,34 @@
+// Named permissions checked by the API routes (see README for the matrix)
+export type Permission =
+  | 'project:read'
+  | 'project:create'       // Create projects under the client (and move or clone projects there)
+  | 'project:update'
+  | 'project:delete'       // Move to the trash, restore, purge
+  | 'project:status'
+  | 'project:move'
+  | 'history:read'
+  | 'history:revert'
+  | 'members:read'
+  | 'members:manage'       // Members, invitations and group grants
+  | 'ownership:transfer'   // Owner only; cannot be given to a custom role
+  | 'customFields:manage'  // Client admins only
+  | 'clientAdmins:manage'  // Client admins only
+  | 'roles:manage'         // Client admins only
+  | 'layout:edit'
+  | 'comments:write';
+
+// A custom project role of a client, stored in the client's "_roles" partition.
+// Members, group grants and invitations of the client's projects refer to it by name.
+export interface RoleDefinition {
+  id: string;              // Same as name
+  docType: "roleDefinition";
+  client_name: string;
+  slug: string;            // Always ROLES_PARTITION
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  _etag?: string;
+  createdAt: string;
+  createdBy: string;       // User ID
+  updatedAt: string;
+}
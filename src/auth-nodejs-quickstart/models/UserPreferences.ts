@@ -0,0 +1,27 @@
+// Project a preference points at. The id survives moves; client_name/slug are as last seen.
+export interface ProjectRef {
+  projectId: string;
+  client_name: string;
+  slug: string;
+}
+
+export interface FavoriteProject extends ProjectRef {
+  addedAt: string;
+}
+
+export interface RecentProject extends ProjectRef {
+  viewedAt: string;
+}
+
+// One document per user, in a partition of its own
+export interface UserPreferences {
+  id: string;              // Always USER_PREFERENCES_ID
+  docType: "userPreferences";
+  client_name: string;     // Always USER_PARTITION
+  slug: string;            // User ID
+  userId: string;
+  favorites: FavoriteProject[];   // Most recently added first
+  recent: RecentProject[];        // Most recently viewed first, at most MAX_RECENT_PROJECTS
+  updatedAt: string;
+  _etag?: string;
+}
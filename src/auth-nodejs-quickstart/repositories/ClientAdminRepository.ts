@@ -0,0 +1,69 @@
+// repositories/ClientAdminRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { ClientAdmin } from "../models/ClientAdmin";
+
+// Second partition key part of a client's admin grants; project slugs cannot start with "_"
+export const CLIENT_ADMINS_PARTITION = "_admins";
+
+/**
+ * Client admin grants, one document per user in a partition of its own per client
+ */
+export class ClientAdminRepository extends Repository<ClientAdmin> {
+  constructor(container: Container) {
+    super(container, "clientAdmin");
+  }
+
+  /**
+   * Get all admins of a client, by name
+   */
+  async getAdmins(clientName: string): Promise<ClientAdmin[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.userName
+      `,
+      parameters: [
+        { name: "@docType", value: "clientAdmin" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: CLIENT_ADMINS_PARTITION }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  async getAdmin(clientName: string, userId: string): Promise<ClientAdmin | undefined> {
+    return await this.getById(userId, clientName, CLIENT_ADMINS_PARTITION);
+  }
+
+  /**
+   * Remove an admin. Another admin is written back unchanged in the same batch, conditional
+   * on its _etag, so two admins removing each other at the same time cannot both succeed.
+   * Throws with code 404 if the user is no admin, 409 if they are the last one.
+   */
+  async removeAdmin(clientName: string, userId: string): Promise<void> {
+    const admins = await this.getAdmins(clientName);
+    const admin = admins.find(a => a.userId === userId);
+    const otherAdmin = admins.find(a => a.userId !== userId);
+
+    if (!admin) {
+      const error: any = new Error('User is not an admin of this client');
+      error.code = 404;
+      throw error;
+    }
+    if (!otherAdmin) {
+      const error: any = new Error('A client must keep at least one admin');
+      error.code = 409;
+      throw error;
+    }
+
+    await this.batch(clientName, CLIENT_ADMINS_PARTITION)
+      .add(this.deleteOperation(admin.id, { ifMatch: admin._etag }))
+      .add(...this.replaceOperations(otherAdmin, otherAdmin))
+      .execute();
+  }
+}
@@ -0,0 +1,46 @@
+// repositories/CustomFieldRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { CustomFieldDefinition } from "../models/CustomField";
+
+// Second partition key part of a client's field definitions; project slugs cannot start with "_"
+export const CUSTOM_FIELDS_PARTITION = "_customFields";
+
+/**
+ * Custom field definitions, one document per field in a partition of its own per client
+ */
+export class CustomFieldRepository extends Repository<CustomFieldDefinition> {
+  constructor(container: Container) {
+    super(container, "customFieldDefinition");
+  }
+
+  /**
+   * Get all field definitions of a client, by key
+   */
+  async getDefinitions(clientName: string): Promise<CustomFieldDefinition[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.key
+      `,
+      parameters: [
+        { name: "@docType", value: "customFieldDefinition" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: CUSTOM_FIELDS_PARTITION }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  async getDefinition(clientName: string, key: string): Promise<CustomFieldDefinition | undefined> {
+    return await this.getById(key, clientName, CUSTOM_FIELDS_PARTITION);
+  }
+
+  async deleteDefinition(clientName: string, key: string): Promise<void> {
+    await this.delete(key, clientName, CUSTOM_FIELDS_PARTITION);
+  }
+}
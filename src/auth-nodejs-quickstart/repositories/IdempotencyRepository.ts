@@ -0,0 +1,64 @@
+// repositories/IdempotencyRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { IdempotencyDocument } from "../models/IdempotencyRecord";
+import { IdempotencyRecord } from "../utils/cache/CacheInterface";
+
+// First partition key part of idempotency records; cannot clash with a client name used by projects
+const IDEMPOTENCY_PARTITION = "_idempotency";
+
+/**
+ * Idempotency-Key records stored in Cosmos DB, expired by per-item TTL
+ */
+export class IdempotencyRepository extends Repository<IdempotencyDocument> {
+  constructor(container: Container) {
+    super(container, "idempotencyRecord");
+  }
+
+  async getRecord(userId: string, keyHash: string): Promise<IdempotencyRecord | undefined> {
+    return await this.getById(keyHash, IDEMPOTENCY_PARTITION, userId);
+  }
+
+  /**
+   * Store a record unless one exists for the key. Returns false if the key is taken.
+   */
+  async reserveRecord(userId: string, keyHash: string, record: IdempotencyRecord, ttl: number): Promise<boolean> {
+    try {
+      await this.create(this.toRecordDocument(userId, keyHash, record, ttl));
+      return true;
+    } catch (error: any) {
+      if (error.code === 409) return false;
+      throw error;
+    }
+  }
+
+  async saveRecord(userId: string, keyHash: string, record: IdempotencyRecord, ttl: number): Promise<void> {
+    await this.container.items.upsert({
+      ...this.toRecordDocument(userId, keyHash, record, ttl),
+      docType: "idempotencyRecord"
+    });
+  }
+
+  async deleteRecord(userId: string, keyHash: string): Promise<void> {
+    try {
+      await this.delete(keyHash, IDEMPOTENCY_PARTITION, userId);
+    } catch (error: any) {
+      if (error.code !== 404) throw error;
+    }
+  }
+
+  private toRecordDocument(
+    userId: string,
+    keyHash: string,
+    record: IdempotencyRecord,
+    ttl: number
+  ): Omit<IdempotencyDocument, "docType"> {
+    return {
+      ...record,
+      id: keyHash,
+      client_name: IDEMPOTENCY_PARTITION,
+      slug: userId,
+      ttl
+    };
+  }
+}
@@ -0,0 +1,88 @@
+// repositories/ProjectAccessRequestRepository.ts
+import { Container, OperationInput } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { ProjectAccessRequest } from "../models/ProjectAccessRequest";
+
+export class ProjectAccessRequestRepository extends Repository<ProjectAccessRequest> {
+  constructor(container: Container) {
+    super(container, "projectAccessRequest");
+  }
+
+  /**
+   * Get the access requests of a project, newest first
+   */
+  async getProjectRequests(clientName: string, projectSlug: string): Promise<ProjectAccessRequest[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.createdAt DESC
+      `,
+      parameters: [
+        { name: "@docType", value: "projectAccessRequest" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Get a user's pending access request for a project
+   */
+  async getPendingRequest(
+    clientName: string,
+    projectSlug: string,
+    userId: string
+  ): Promise<ProjectAccessRequest | undefined> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        AND c.userId = @userId
+        AND c.status = "pending"
+      `,
+      parameters: [
+        { name: "@docType", value: "projectAccessRequest" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug },
+        { name: "@userId", value: userId }
+      ]
+    };
+
+    const results = await this.query(querySpec);
+    return results[0];
+  }
+
+  /**
+   * Record the decision on an access request together with related writes (e.g. creating
+   * the membership) in one transactional batch. Throws with code 412 if the request changed
+   * since it was read, e.g. because it was decided concurrently.
+   */
+  async respond(
+    request: ProjectAccessRequest,
+    status: ProjectAccessRequest["status"],
+    respondedBy: string,
+    responseMessage?: string,
+    operations: OperationInput[] = []
+  ): Promise<ProjectAccessRequest> {
+    const updated: ProjectAccessRequest = {
+      ...request,
+      status,
+      respondedAt: new Date().toISOString(),
+      respondedBy,
+      ...(responseMessage !== undefined && { responseMessage })
+    };
+
+    await this.batch(request.client_name, request.slug)
+      .add(...this.replaceOperations(request, updated), ...operations)
+      .execute();
+
+    return (await this.getById(request.id, request.client_name, request.slug))!;
+  }
+}
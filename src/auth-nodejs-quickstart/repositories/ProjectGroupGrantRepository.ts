@@ -0,0 +1,103 @@
+// repositories/ProjectGroupGrantRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { ProjectGroupGrant } from "../models/ProjectGroupGrant";
+import { CachedProjectAccess } from "../models/ProjectMember";
+
+export function groupGrantId(projectId: string, groupId: string): string {
+  return `${projectId}:group:${groupId}`;
+}
+
+export class ProjectGroupGrantRepository extends Repository<ProjectGroupGrant> {
+  constructor(container: Container) {
+    super(container, "projectGroupGrant");
+  }
+
+  /**
+   * Get the group grants of a project (within same partition)
+   */
+  async getProjectGrants(clientName: string, projectSlug: string): Promise<ProjectGroupGrant[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.groupId
+      `,
+      parameters: [
+        { name: "@docType", value: "projectGroupGrant" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  async getGrant(
+    projectId: string,
+    groupId: string,
+    clientName: string,
+    projectSlug: string
+  ): Promise<ProjectGroupGrant | undefined> {
+    return await this.getById(groupGrantId(projectId, groupId), clientName, projectSlug);
+  }
+
+  /**
+   * Get the grants of a project to any of the given groups (within same partition)
+   */
+  async getGrantsForGroups(
+    groupIds: string[],
+    clientName: string,
+    projectSlug: string
+  ): Promise<ProjectGroupGrant[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        AND ARRAY_CONTAINS(@groupIds, c.groupId)
+      `,
+      parameters: [
+        { name: "@docType", value: "projectGroupGrant" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug },
+        { name: "@groupIds", value: groupIds }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Get the projects granted to any of the given groups (cross-partition query), one entry
+   * per grant. Returns data ready for caching; projects in the trash are left out.
+   */
+  async getGroupProjects(userId: string, groupIds: string[]): Promise<CachedProjectAccess[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND ARRAY_CONTAINS(@groupIds, c.groupId)
+        AND NOT IS_DEFINED(c.deletedAt)
+      `,
+      parameters: [
+        { name: "@docType", value: "projectGroupGrant" },
+        { name: "@groupIds", value: groupIds }
+      ]
+    };
+
+    const grants = await this.query(querySpec);
+
+    return grants.map((g: ProjectGroupGrant) => ({
+      userId,
+      projectId: g.projectId,
+      role: g.role,
+      client_name: g.client_name,
+      slug: g.slug,
+      cachedAt: Date.now()
+    }));
+  }
+}
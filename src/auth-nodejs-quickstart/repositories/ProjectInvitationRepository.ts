@@ -0,0 +1,135 @@
+// repositories/ProjectInvitationRepository.ts
+import { Container, OperationInput } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { ProjectInvitation } from "../models/ProjectInvitation";
+
+export class ProjectInvitationRepository extends Repository<ProjectInvitation> {
+  constructor(container: Container) {
+    super(container, "projectInvitation");
+  }
+
+  /**
+   * Get the invitations of a project, newest first
+   */
+  async getProjectInvitations(clientName: string, projectSlug: string): Promise<ProjectInvitation[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.createdAt DESC
+      `,
+      parameters: [
+        { name: "@docType", value: "projectInvitation" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Get the pending, unexpired invitation of a project for an email address
+   */
+  async getPendingInvitation(
+    clientName: string,
+    projectSlug: string,
+    email: string
+  ): Promise<ProjectInvitation | undefined> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        AND c.email = @email
+        AND c.status = "pending"
+        AND c.expiresAt > @now
+      `,
+      parameters: [
+        { name: "@docType", value: "projectInvitation" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug },
+        { name: "@email", value: email.toLowerCase() },
+        { name: "@now", value: new Date().toISOString() }
+      ]
+    };
+
+    const results = await this.query(querySpec);
+    return results[0];
+  }
+
+  /**
+   * Get the pending, unexpired invitations for an email address across all projects
+   * (cross-partition query). Invitations of projects in the trash are left out.
+   */
+  async getPendingInvitationsForEmail(email: string): Promise<ProjectInvitation[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.email = @email
+        AND c.status = "pending"
+        AND c.expiresAt > @now
+        AND NOT IS_DEFINED(c.deletedAt)
+        ORDER BY c.createdAt DESC
+      `,
+      parameters: [
+        { name: "@docType", value: "projectInvitation" },
+        { name: "@email", value: email.toLowerCase() },
+        { name: "@now", value: new Date().toISOString() }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Find an invitation by id when its project is not known (cross-partition query).
+   * Invitations of projects in the trash are not found.
+   */
+  async getInvitation(id: string): Promise<ProjectInvitation | undefined> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c
+        WHERE c.docType = @docType
+        AND c.id = @id
+        AND NOT IS_DEFINED(c.deletedAt)
+      `,
+      parameters: [
+        { name: "@docType", value: "projectInvitation" },
+        { name: "@id", value: id }
+      ]
+    };
+
+    const results = await this.query(querySpec);
+    return results[0];
+  }
+
+  /**
+   * Record the response to an invitation together with related writes (e.g. creating the
+   * membership) in one transactional batch. Throws with code 412 if the invitation changed
+   * since it was read, e.g. because it was answered concurrently.
+   */
+  async respond(
+    invitation: ProjectInvitation,
+    status: ProjectInvitation["status"],
+    respondedBy: string,
+    operations: OperationInput[] = []
+  ): Promise<ProjectInvitation> {
+    const updated: ProjectInvitation = {
+      ...invitation,
+      status,
+      respondedAt: new Date().toISOString(),
+      respondedBy
+    };
+
+    await this.batch(invitation.client_name, invitation.slug)
+      .add(...this.replaceOperations(invitation, updated), ...operations)
+      .execute();
+
+    return (await this.getById(invitation.id, invitation.client_name, invitation.slug))!;
+  }
+}
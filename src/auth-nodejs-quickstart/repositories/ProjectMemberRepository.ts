@@ -1,9 +1,24 @@
 // repositories/ProjectMemberRepository.ts
-import { Container } from "@azure/cosmos";
-import { Repository } from "./Repository";
+import { Container, OperationInput } from "@azure/cosmos";
+import { Repository, WriteOptions } from "./Repository";
 import { ProjectMember, ProjectRole, CachedProjectAccess } from "../models/ProjectMember";
 import { randomUUID } from "crypto";
 
+// Memberships in their access period (time-limited memberships, see validFrom/expiresAt)
+const ACTIVE_MEMBERSHIP_FILTER = `
+  AND (NOT IS_DEFINED(c.validFrom) OR c.validFrom <= @now)
+  AND (NOT IS_DEFINED(c.expiresAt) OR c.expiresAt > @now)
+`;
+
+/**
+ * Changes to a membership; null removes validFrom / expiresAt
+ */
+export interface ProjectMemberChanges {
+  role?: ProjectRole;
+  validFrom?: string | null;
+  expiresAt?: string | null;
+}
+
 export class ProjectMemberRepository extends Repository<ProjectMember> {
   constructor(container: Container) {
     super(container, "projectMember");
@@ -64,9 +79,36 @@ export class ProjectMemberRepository extends Repository<ProjectMember> {
     return await this.query(querySpec);
   }
 
+  /**
+   * Get the owners of a project that are in their access period
+   */
+  async getActiveOwners(
+    clientName: string,
+    projectSlug: string
+  ): Promise<ProjectMember[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        AND c.role = "owner"
+        ${ACTIVE_MEMBERSHIP_FILTER}
+      `,
+      parameters: [
+        { name: "@docType", value: "projectMember" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: projectSlug },
+        { name: "@now", value: new Date().toISOString() }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
   /**
    * Get all projects for a user by userId (cross-partition query)
-   * Returns data ready for caching
+   * Returns data ready for caching. Memberships outside their access period are left out.
    */
   async getUserProjects(userId: string): Promise<CachedProjectAccess[]> {
     const querySpec = {
@@ -74,24 +116,92 @@ export class ProjectMemberRepository extends Repository<ProjectMember> {
         SELECT * FROM c 
         WHERE c.docType = @docType 
         AND c.userId = @userId
+        AND NOT IS_DEFINED(c.deletedAt)
+        ${ACTIVE_MEMBERSHIP_FILTER}
       `,
       parameters: [
         { name: "@docType", value: "projectMember" },
-        { name: "@userId", value: userId }
+        { name: "@userId", value: userId },
+        { name: "@now", value: new Date().toISOString() }
       ]
     };
 
     const members = await this.query(querySpec);
     
     // Transform to CachedProjectAccess format
-    return members.map((m: ProjectMember) => ({
-      userId: m.userId,
-      projectId: m.projectId,
-      role: m.role,
-      client_name: m.client_name,
-      slug: m.slug,
-      cachedAt: Date.now()
-    }));
+    return members.map(toCachedAccess);
+  }
+
+  /**
+   * Earliest validFrom still ahead among the user's memberships, if any (cross-partition
+   * query). Cached project lists must not outlive it, or access starts late.
+   */
+  async getNextValidFrom(userId: string): Promise<string | undefined> {
+    const querySpec = {
+      query: `
+        SELECT VALUE MIN(c.validFrom) FROM c 
+        WHERE c.docType = @docType 
+        AND c.userId = @userId
+        AND NOT IS_DEFINED(c.deletedAt)
+        AND c.validFrom > @now
+      `,
+      parameters: [
+        { name: "@docType", value: "projectMember" },
+        { name: "@userId", value: userId },
+        { name: "@now", value: new Date().toISOString() }
+      ]
+    };
+
+    const { resources } = await this.container.items
+      .query<string | undefined>(querySpec)
+      .fetchAll();
+    return resources[0] || undefined;
+  }
+
+  /**
+   * Get the user's memberships of projects that are in the trash (cross-partition query)
+   */
+  async getUserDeletedProjects(userId: string): Promise<CachedProjectAccess[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.userId = @userId
+        AND IS_DEFINED(c.deletedAt)
+        ${ACTIVE_MEMBERSHIP_FILTER}
+      `,
+      parameters: [
+        { name: "@docType", value: "projectMember" },
+        { name: "@userId", value: userId },
+        { name: "@now", value: new Date().toISOString() }
+      ]
+    };
+
+    const members = await this.query(querySpec);
+
+    return members.map(toCachedAccess);
+  }
+
+  /**
+   * Get memberships whose expiresAt has passed, of projects that are not in the trash
+   * (cross-partition query)
+   */
+  async getExpiredMembers(now: string): Promise<ProjectMember[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND IS_DEFINED(c.expiresAt)
+        AND c.expiresAt <= @now
+        AND NOT IS_DEFINED(c.deletedAt)
+      `,
+      parameters: [
+        { name: "@docType", value: "projectMember" },
+        { name: "@now", value: now }
+      ]
+    };
+
+    return await this.query(querySpec);
   }
 
   /**
@@ -135,7 +245,8 @@ export class ProjectMemberRepository extends Repository<ProjectMember> {
     userName: string,
     role: ProjectRole,
     clientName: string,
-    projectSlug: string
+    projectSlug: string,
+    period: Pick<ProjectMember, 'validFrom' | 'expiresAt'> = {}
   ): Promise<ProjectMember> {
     // Check if member already exists
     const existing = await this.getMember(userId, projectId, clientName, projectSlug);
@@ -151,35 +262,46 @@ export class ProjectMemberRepository extends Repository<ProjectMember> {
       userId,
       email,
       userName,
-      role
+      role,
+      ...(period.validFrom && { validFrom: period.validFrom }),
+      ...(period.expiresAt && { expiresAt: period.expiresAt })
     };
 
     return await this.create(member);
   }
 
   /**
-   * Update member role
+   * Update a member's role and/or access period. Demoting an owner is refused with code 409
+   * if it would leave the project without an owner (see ownerGuardOperations).
    */
-  async updateMemberRole(
+  async updateMember(
     userId: string,
     projectId: string,
     clientName: string,
     projectSlug: string,
-    newRole: ProjectRole
+    changes: ProjectMemberChanges,
+    options: WriteOptions = {}
   ): Promise<ProjectMember> {
     const member = await this.getMember(userId, projectId, clientName, projectSlug);
     
     if (!member) {
-      throw new Error('Member not found');
+      throw memberNotFound();
     }
 
-    return await this.update(member.id, clientName, projectSlug, {
-      role: newRole
-    } as any);
+    const updated = applyMemberChanges(member, changes);
+    const now = new Date().toISOString();
+    const demotesOwner = isActiveOwner(member, now) && !isActiveOwner(updated, now);
+
+    const [result] = await this.batch(clientName, projectSlug)
+      .add(...this.replaceOperations(member, updated, options))
+      .add(...(demotesOwner ? await this.ownerGuardOperations(member) : []))
+      .execute();
+    return result.resourceBody as unknown as ProjectMember;
   }
 
   /**
-   * Remove member from project
+   * Remove member from project. Removing an owner is refused with code 409 if it would
+   * leave the project without an owner (see ownerGuardOperations).
    */
   async removeMember(
     userId: string,
@@ -190,21 +312,49 @@ export class ProjectMemberRepository extends Repository<ProjectMember> {
     const member = await this.getMember(userId, projectId, clientName, projectSlug);
     
     if (!member) {
-      throw new Error('Member not found');
+      throw memberNotFound();
+    }
+
+    if (!isActiveOwner(member, new Date().toISOString())) {
+      await this.delete(member.id, clientName, projectSlug);
+      return;
+    }
+
+    await this.batch(clientName, projectSlug)
+      .add(this.deleteOperation(member.id, { ifMatch: member._etag }))
+      .add(...await this.ownerGuardOperations(member))
+      .execute();
+  }
+
+  /**
+   * Batch operations that keep the project owned while `owner` is demoted or removed.
+   * Another active owner is written back unchanged, conditional on its _etag, so two owners
+   * demoting each other at the same time cannot both succeed (the second batch fails
+   * with 412). Owners whose validFrom lies ahead do not count. Throws with code 409 if
+   * `owner` is the last active owner.
+   */
+  async ownerGuardOperations(owner: ProjectMember): Promise<OperationInput[]> {
+    const owners = await this.getActiveOwners(owner.client_name, owner.slug);
+    const otherOwner = owners.find(m => m.userId !== owner.userId);
+
+    if (!otherOwner) {
+      const error: any = new Error('A project must keep at least one owner');
+      error.code = 409;
+      throw error;
     }
 
-    await this.delete(member.id, clientName, projectSlug);
+    return this.replaceOperations(otherOwner, otherOwner);
   }
 
   /**
-   * Check if project has at least one owner
+   * Check if project has at least one active owner
    */
   async hasOwners(    
     clientName: string,
     projectSlug: string
   ): Promise<boolean> {
-    const members = await this.getProjectMembers(clientName, projectSlug);
-    return members.some(m => m.role === 'owner');
+    const owners = await this.getActiveOwners(clientName, projectSlug);
+    return owners.length > 0;
   }
 
   /**
@@ -217,4 +367,46 @@ export class ProjectMemberRepository extends Repository<ProjectMember> {
     const members = await this.getProjectMembers(clientName, projectSlug);
     return members.length;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Member with the changes applied (not written)
+ */
+export function applyMemberChanges(member: ProjectMember, changes: ProjectMemberChanges): ProjectMember {
+  const updated: ProjectMember = { ...member, ...(changes.role && { role: changes.role }) };
+  for (const field of ["validFrom", "expiresAt"] as const) {
+    if (changes[field] === null) {
+      delete updated[field];
+    } else if (changes[field] !== undefined) {
+      updated[field] = changes[field]!;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Owner in its access period at `now`; the same test as ACTIVE_MEMBERSHIP_FILTER
+ */
+function isActiveOwner(member: ProjectMember, now: string): boolean {
+  return member.role === "owner"
+    && (!member.validFrom || member.validFrom <= now)
+    && (!member.expiresAt || member.expiresAt > now);
+}
+
+function toCachedAccess(m: ProjectMember): CachedProjectAccess {
+  return {
+    userId: m.userId,
+    projectId: m.projectId,
+    role: m.role,
+    client_name: m.client_name,
+    slug: m.slug,
+    ...(m.expiresAt && { expiresAt: m.expiresAt }),
+    cachedAt: Date.now()
+  };
+}
+
+function memberNotFound(): Error {
+  const error: any = new Error("Member not found");
+  error.code = 404;
+  return error;
+}
@@ -1,12 +1,278 @@
-import { Container } from "@azure/cosmos";
-import { Repository } from "./Repository";
-import { Project } from "../models/Project";
+import { BulkOperationType, Container, OperationInput, PatchOperation } from "@azure/cosmos";
+import { Repository, PageOptions, PagedResult, WriteOptions } from "./Repository";
+import { Project, GeoPoint, ProjectCount, ProjectRedirect, ProjectStats, ProjectStatus } from "../models/Project";
+import { TokenUser } from "../models/ProjectMember";
+import { FieldChange, ProjectRevision, RevisionAction } from "../models/ProjectRevision";
+import { GeoPolygon, isValidCoordinate, toGeoPoint } from "../utils/geo/GeoJson";
+import { applyPatchOperations, diffDocuments, undoChangesOperations } from "../utils/patch/PatchDocument";
+import { DEFAULT_PROJECT_STATUS } from "../utils/lifecycle/ProjectLifecycle";
+
+const MAX_BATCH_OPERATIONS = 100;   // Cosmos DB transactional batch limit
+const SYSTEM_PROPERTIES = ["_rid", "_self", "_etag", "_attachments", "_ts"];
+
+// Fields maintained by the server that are left out of revision diffs
+const UNTRACKED_FIELDS = [...SYSTEM_PROPERTIES, "updatedAt", "location", "revision"];
+
+// Changed only through lifecycle transitions and ownership transfers, so a revert leaves them alone
+const NON_REVERTIBLE_FIELDS = ["status", "statusChangedAt", "statusChangedBy", "ownerId"];
+
+// Recorded as the editor when a write does not say who made it (e.g. the seed script)
+const SYSTEM_EDITOR: TokenUser = {
+  userId: "system",
+  email: "",
+  name: "System",
+  tenantId: ""
+};
+
+export interface ProjectWriteOptions extends WriteOptions {
+  editor?: TokenUser;      // Recorded on the revision
+}
+
+export interface RevisionWriteOptions extends ProjectWriteOptions {
+  action?: RevisionAction;
+  revertedTo?: number;
+}
+
+export const PROJECT_SORT_FIELDS = [
+  "name",
+  "client_name",
+  "slug",
+  "buildingType",
+  "country",
+  "constructionDate",
+  "createdAt",
+  "updatedAt"
+] as const;
+
+export type ProjectSortField = typeof PROJECT_SORT_FIELDS[number];
+
+export interface ProjectListFilters {
+  buildingType?: string;
+  country?: string;
+  status?: ProjectStatus;
+  tags?: string[];                                          // Projects must have every tag
+  customFields?: Record<string, string | number | boolean>; // Keys are validated custom field keys
+}
+
+export interface ProjectListSort {
+  field: ProjectSortField;
+  order: "ASC" | "DESC";
+}
 
 export class ProjectRepository extends Repository<Project> {
   constructor(container: Container) {
     super(container, "project");
   }
 
+  /**
+   * Keep the spatial location in sync with lat/lon
+   */
+  protected prepareForWrite(project: Project): Project {
+    if (isValidCoordinate(project.lat, project.lon)) {
+      return { ...project, location: toGeoPoint(project.lat, project.lon) };
+    }
+
+    const { location, ...rest } = project;
+    return rest as Project;
+  }
+
+  /**
+   * Create a project together with its first revision
+   */
+  async create(
+    entity: Omit<Project, "docType"> & Partial<Pick<Project, "docType">>,
+    options: ProjectWriteOptions = {}
+  ): Promise<Project> {
+    const [result] = await this.executeBatch(
+      this.createOperations(entity, options),
+      entity.client_name,
+      entity.slug
+    );
+    return result.resourceBody as unknown as Project;
+  }
+
+  /**
+   * Batch operations that create a project and its first revision
+   */
+  createOperations(
+    entity: Omit<Project, "docType"> & Partial<Pick<Project, "docType">>,
+    options: ProjectWriteOptions = {}
+  ): OperationInput[] {
+    const project = this.prepareForWrite({ ...entity, docType: "project", revision: 1 } as Project);
+
+    return [
+      { operationType: BulkOperationType.Create, resourceBody: project as any },
+      {
+        operationType: BulkOperationType.Create,
+        resourceBody: this.toRevision(project, "create", diffDocuments({}, project, UNTRACKED_FIELDS), options) as any
+      }
+    ];
+  }
+
+  /**
+   * Update a project; the changed fields are recorded as a new revision
+   */
+  async update(
+    id: string,
+    clientName: string,
+    slug: string,
+    updates: Partial<Omit<Project, "id" | "slug" | "client_name" | "docType">>,
+    options: ProjectWriteOptions = {}
+  ): Promise<Project> {
+    return await super.update(id, clientName, slug, updates, options);
+  }
+
+  /**
+   * Replace the project and record the changed fields as a new revision in one transaction
+   */
+  protected async replaceDocument(
+    existing: Project,
+    updated: Project,
+    options: RevisionWriteOptions
+  ): Promise<Project> {
+    const [result] = await this.executeBatch(
+      this.replaceOperations(existing, updated, options),
+      existing.client_name,
+      existing.slug
+    );
+    return result.resourceBody as unknown as Project;
+  }
+
+  /**
+   * Batch operations that replace a project and record the changed fields as a new revision
+   */
+  replaceOperations(
+    existing: Project,
+    updated: Project,
+    options: RevisionWriteOptions = {}
+  ): OperationInput[] {
+    const revision = (existing.revision ?? 0) + 1;
+    const project = this.prepareForWrite({ ...updated, revision });
+
+    return [
+      {
+        operationType: BulkOperationType.Replace,
+        id: existing.id,
+        resourceBody: project as any,
+        ifMatch: options.ifMatch || existing._etag
+      },
+      {
+        operationType: BulkOperationType.Create,
+        resourceBody: this.toRevision(
+          project,
+          options.action || "update",
+          diffDocuments(existing, project, UNTRACKED_FIELDS),
+          options,
+          options.revertedTo
+        ) as any
+      }
+    ];
+  }
+
+  /**
+   * Patch a project. The patched document is computed up front so location can be kept in
+   * sync with lat/lon and the revision written in the same transaction as the patch.
+   */
+  async patch(
+    id: string,
+    clientName: string,
+    slug: string,
+    operations: PatchOperation[],
+    options: ProjectWriteOptions = {}
+  ): Promise<Project> {
+    const existing = await this.getById(id, clientName, slug);
+    if (!existing) {
+      const error: any = new Error(`project with id ${id} not found`);
+      error.code = 404;
+      throw error;
+    }
+    if (options.ifMatch && options.ifMatch !== existing._etag) {
+      const error: any = new Error(`project with id ${id} was modified`);
+      error.code = 412;
+      throw error;
+    }
+
+    const patched = applyPatchOperations(existing, operations);
+    const synced = this.prepareForWrite(patched);
+    const revision = (existing.revision ?? 0) + 1;
+
+    const allOperations: PatchOperation[] = [
+      ...operations,
+      ...(JSON.stringify(synced.location) === JSON.stringify(existing.location)
+        ? []
+        : [synced.location
+          ? { op: "set" as const, path: "/location", value: synced.location }
+          : { op: "remove" as const, path: "/location" }]),
+      { op: "set", path: "/revision", value: revision }
+    ];
+
+    const result = await this.executeBatch([
+      ...this.toPatchBatch(id, allOperations, { ifMatch: existing._etag }),
+      {
+        operationType: BulkOperationType.Create,
+        resourceBody: this.toRevision(
+          { ...synced, revision },
+          "update",
+          diffDocuments(existing, synced, UNTRACKED_FIELDS),
+          options
+        ) as any
+      }
+    ], clientName, slug);
+
+    return result[result.length - 2].resourceBody as unknown as Project;
+  }
+
+  /**
+   * Restore the project fields to how they were right after `revision`, by undoing the
+   * changes of every later revision. Recorded as a new 'revert' revision.
+   */
+  async revertToRevision(
+    project: Project,
+    revision: number,
+    laterRevisions: ProjectRevision[],
+    options: ProjectWriteOptions = {}
+  ): Promise<Project> {
+    const undo = [...laterRevisions]
+      .sort((a, b) => b.revision - a.revision)
+      .flatMap(r => undoChangesOperations(
+        r.changes.filter(c => !NON_REVERTIBLE_FIELDS.includes(c.path.split("/")[1]))
+      ));
+
+    const reverted = this.prepareForWrite({
+      ...applyPatchOperations(project, undo),
+      updatedAt: new Date().toISOString()
+    });
+
+    return await this.replaceDocument(project, reverted, {
+      ...options,
+      ifMatch: options.ifMatch || project._etag,
+      action: "revert",
+      revertedTo: revision
+    });
+  }
+
+  private toRevision(
+    project: Project,
+    action: RevisionAction,
+    changes: FieldChange[],
+    options: ProjectWriteOptions,
+    revertedTo?: number
+  ): ProjectRevision {
+    return {
+      id: `${project.id}:rev:${project.revision}`,
+      docType: "projectRevision",
+      client_name: project.client_name,
+      slug: project.slug,
+      projectId: project.id,
+      revision: project.revision!,
+      action,
+      ...(revertedTo !== undefined && { revertedTo }),
+      changes,
+      editor: options.editor || SYSTEM_EDITOR,
+      createdAt: new Date().toISOString()
+    };
+  }
+
   /**
    * Get project by client and slug
    */
@@ -55,4 +321,596 @@ export class ProjectRepository extends Repository<Project> {
 
     return await this.query(querySpec);
   }
+
+  /**
+   * Whether a client has any project, including projects in the trash
+   */
+  async hasClientProjects(clientName: string): Promise<boolean> {
+    const querySpec = {
+      query: `
+        SELECT TOP 1 c.id FROM c
+        WHERE c.docType = @docType
+        AND c.client_name = @clientName
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@clientName", value: clientName }
+      ]
+    };
+
+    return (await this.query(querySpec)).length > 0;
+  }
+
+  /**
+   * Get one page of projects from a set of project IDs (cross-partition query).
+   * The caller resolves which projects the user can access; this applies the
+   * project-level filters and sort order in Cosmos.
+   */
+  async getProjectsPage(
+    projectIds: string[],
+    filters: ProjectListFilters,
+    sort: ProjectListSort,
+    page: PageOptions
+  ): Promise<PagedResult<Project>> {
+    const conditions = [
+      "c.docType = @docType",
+      "ARRAY_CONTAINS(@projectIds, c.id)",
+      "NOT IS_DEFINED(c.deletedAt)"
+    ];
+    const parameters: Array<{ name: string; value: any }> = [
+      { name: "@docType", value: "project" },
+      { name: "@projectIds", value: projectIds }
+    ];
+
+    if (filters.buildingType) {
+      conditions.push("c.buildingType = @buildingType");
+      parameters.push({ name: "@buildingType", value: filters.buildingType });
+    }
+
+    if (filters.country) {
+      conditions.push("c.country = @country");
+      parameters.push({ name: "@country", value: filters.country });
+    }
+
+    if (filters.status) {
+      // Projects without a status predate the lifecycle
+      conditions.push(filters.status === DEFAULT_PROJECT_STATUS
+        ? "(c.status = @status OR NOT IS_DEFINED(c.status))"
+        : "c.status = @status");
+      parameters.push({ name: "@status", value: filters.status });
+    }
+
+    filters.tags?.forEach((tag, i) => {
+      conditions.push(`ARRAY_CONTAINS(c.tags, @tag${i})`);
+      parameters.push({ name: `@tag${i}`, value: tag });
+    });
+
+    // Custom field keys match the definition key pattern, so they are safe to inline
+    Object.entries(filters.customFields || {}).forEach(([key, value], i) => {
+      conditions.push(`c.customFields.${key} = @customField${i}`);
+      parameters.push({ name: `@customField${i}`, value });
+    });
+
+    // Sort field is validated against PROJECT_SORT_FIELDS, so it is safe to inline
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE ${conditions.join("\n        AND ")}
+        ORDER BY c.${sort.field} ${sort.order}
+      `,
+      parameters
+    };
+
+    return await this.queryPage(querySpec, page);
+  }
+
+  /**
+   * Get the projects with the given IDs that are not in the trash, in any order
+   */
+  async getProjectsByIds(projectIds: string[]): Promise<Project[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@projectIds, c.id)
+        AND NOT IS_DEFINED(c.deletedAt)
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@projectIds", value: projectIds }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Get the `limit` projects nearest to a point from a set of project IDs, within a radius
+   * (in meters). Cosmos DB cannot ORDER BY ST_DISTANCE across partitions, so every match in
+   * the radius is read and sorted here before the limit is applied. Projects without a
+   * location (no valid lat/lon) never match.
+   */
+  async searchNear(
+    projectIds: string[],
+    point: GeoPoint,
+    radiusMeters: number,
+    limit: number
+  ): Promise<Array<Project & { distance: number }>> {
+    const querySpec: { query: string; parameters: Array<{ name: string; value: any }> } = {
+      query: `
+        SELECT c AS project, ST_DISTANCE(c.location, @point) AS distance
+        FROM c 
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@projectIds, c.id)
+        AND NOT IS_DEFINED(c.deletedAt)
+        AND ST_DISTANCE(c.location, @point) <= @radius
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@projectIds", value: projectIds },
+        { name: "@point", value: point },
+        { name: "@radius", value: radiusMeters }
+      ]
+    };
+
+    const { resources } = await this.container.items
+      .query<{ project: Project; distance: number }>(querySpec)
+      .fetchAll();
+
+    return resources
+      .map(r => ({ ...r.project, distance: r.distance }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  /**
+   * Get projects from a set of project IDs located within a polygon
+   */
+  async searchWithin(
+    projectIds: string[],
+    polygon: GeoPolygon,
+    limit: number
+  ): Promise<Project[]> {
+    const querySpec = {
+      query: `
+        SELECT TOP @limit * FROM c 
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@projectIds, c.id)
+        AND NOT IS_DEFINED(c.deletedAt)
+        AND ST_WITHIN(c.location, @polygon)
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@projectIds", value: projectIds },
+        { name: "@polygon", value: polygon },
+        { name: "@limit", value: limit }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Delete every document in a project's [client_name, slug] partition
+   * (the project, its members, floors, structural layouts, ...).
+   *
+   * Uses Cosmos delete-by-partition-key where the account has it enabled, otherwise
+   * falls back to transactional batches.
+   */
+  async deletePartition(clientName: string, slug: string, projectId: string): Promise<void> {
+    try {
+      await this.container.deleteAllItemsForPartitionKey([clientName, slug]);
+      return;
+    } catch (error: any) {
+      // Delete-by-partition-key is a preview feature; without it the service rejects the request
+      if (error.code !== 400 && error.code !== 403) {
+        throw error;
+      }
+    }
+
+    await this.batchPartition(clientName, slug, projectId, "", id => ({
+      operationType: BulkOperationType.Delete,
+      id
+    }));
+  }
+
+  /**
+   * Soft delete a project: stamp every document in its partition with deletedAt/deletedBy
+   * and a per-item TTL, so Cosmos purges the partition once the retention period has passed.
+   * Revision documents are stamped too, on purpose: without the TTL they would outlive the
+   * purged project. Their recorded changes are left alone, and restorePartition removes the
+   * stamp again.
+   */
+  async softDeletePartition(
+    clientName: string,
+    slug: string,
+    projectId: string,
+    deletedBy: string,
+    retentionSeconds: number
+  ): Promise<void> {
+    const deletedAt = new Date().toISOString();
+
+    await this.batchPartition(clientName, slug, projectId, "NOT IS_DEFINED(c.deletedAt)", id => ({
+      operationType: BulkOperationType.Patch,
+      id,
+      resourceBody: {
+        operations: [
+          { op: "set", path: "/deletedAt", value: deletedAt },
+          { op: "set", path: "/deletedBy", value: deletedBy },
+          { op: "set", path: "/ttl", value: retentionSeconds }
+        ]
+      }
+    }));
+  }
+
+  /**
+   * Restore a soft-deleted project: clear the deletion stamp and TTL on every document in its partition
+   */
+  async restorePartition(clientName: string, slug: string, projectId: string): Promise<void> {
+    await this.batchPartition(clientName, slug, projectId, "IS_DEFINED(c.deletedAt)", id => ({
+      operationType: BulkOperationType.Patch,
+      id,
+      resourceBody: {
+        operations: [
+          { op: "remove", path: "/deletedAt" },
+          { op: "remove", path: "/deletedBy" },
+          { op: "remove", path: "/ttl" }
+        ]
+      }
+    }));
+  }
+
+  /**
+   * Get soft-deleted projects from a set of project IDs (cross-partition query)
+   */
+  async getDeletedProjects(projectIds: string[]): Promise<Project[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@projectIds, c.id)
+        AND IS_DEFINED(c.deletedAt)
+        ORDER BY c.deletedAt DESC
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@projectIds", value: projectIds }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Get the template projects of a set of clients (cross-partition query)
+   */
+  async getTemplates(clientNames: string[]): Promise<Project[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@clientNames, c.client_name)
+        AND c.isTemplate = true
+        AND NOT IS_DEFINED(c.deletedAt)
+        ORDER BY c.name ASC
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@clientNames", value: clientNames }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  /**
+   * Count a set of projects by buildingType, country and construction year with
+   * GROUP BY queries, largest groups first
+   */
+  async getProjectCounts(
+    projectIds: string[]
+  ): Promise<Pick<ProjectStats, "total" | "byBuildingType" | "byCountry" | "byConstructionYear">> {
+    const [byBuildingType, byCountry, byConstructionYear] = await Promise.all([
+      this.countBy(projectIds, "c.buildingType"),
+      this.countBy(projectIds, "c.country"),
+      // constructionDate starts with the year (YYYY or YYYY-MM-DD)
+      this.countBy(projectIds, "SUBSTRING(c.constructionDate, 0, 4)")
+    ]);
+
+    return {
+      total: byBuildingType.reduce((total, group) => total + group.count, 0),
+      byBuildingType,
+      byCountry,
+      byConstructionYear
+    };
+  }
+
+  /**
+   * Group projects by an expression; only called with the fixed expressions above
+   */
+  private async countBy(projectIds: string[], expression: string): Promise<ProjectCount[]> {
+    const querySpec = {
+      query: `
+        SELECT ${expression} AS value, COUNT(1) AS count
+        FROM c 
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@projectIds, c.id)
+        AND NOT IS_DEFINED(c.deletedAt)
+        GROUP BY ${expression}
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@projectIds", value: projectIds }
+      ]
+    };
+
+    const { resources } = await this.container.items
+      .query<{ value?: string; count: number }>(querySpec)
+      .fetchAll();
+
+    // Projects without the field form a group without a value
+    return resources
+      .map(r => ({ value: r.value || null, count: r.count }))
+      .sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+  }
+
+  /**
+   * Count the tags of a set of projects that start with a prefix (case-insensitive),
+   * most used first
+   */
+  async getTagCounts(
+    projectIds: string[],
+    prefix: string,
+    limit: number
+  ): Promise<Array<{ tag: string; count: number }>> {
+    const querySpec = {
+      query: `
+        SELECT t AS tag, COUNT(1) AS count
+        FROM c 
+        JOIN t IN c.tags
+        WHERE c.docType = @docType 
+        AND ARRAY_CONTAINS(@projectIds, c.id)
+        AND NOT IS_DEFINED(c.deletedAt)
+        AND STARTSWITH(t, @prefix, true)
+        GROUP BY t
+      `,
+      parameters: [
+        { name: "@docType", value: "project" },
+        { name: "@projectIds", value: projectIds },
+        { name: "@prefix", value: prefix }
+      ]
+    };
+
+    // GROUP BY queries cannot be ordered in Cosmos DB, so ranking happens here
+    const { resources } = await this.container.items
+      .query<{ tag: string; count: number }>(querySpec)
+      .fetchAll();
+
+    return resources
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, limit);
+  }
+
+  /**
+   * Get the redirect stub left in a partition when its project was moved
+   */
+  async getRedirect(clientName: string, slug: string): Promise<ProjectRedirect | undefined> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+      `,
+      parameters: [
+        { name: "@docType", value: "projectRedirect" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: slug }
+      ]
+    };
+
+    const { resources } = await this.container.items.query<ProjectRedirect>(querySpec).fetchAll();
+    return resources[0];
+  }
+
+  /**
+   * Move a project and every document in its partition to a new [client_name, slug].
+   *
+   * Documents are copied to the new partition with the project document last, then the old
+   * project document is replaced by a redirect stub in a single conditional write (If-Match
+   * on the project's _etag). Until that switch the old project stays authoritative; if
+   * anything fails before it, the copies are removed again. Old documents are deleted last.
+   * Throws with code 409 if the destination partition is not empty and 412 if the project
+   * changed while it was being moved.
+   */
+  async movePartition(
+    project: Project,
+    newClientName: string,
+    newSlug: string,
+    movedBy: string
+  ): Promise<Project> {
+    const { client_name: oldClientName, slug: oldSlug } = project;
+
+    await this.claimPartition(newClientName, newSlug, project.id);
+
+    const { resources: documents } = await this.container.items
+      .query<Record<string, any>>("SELECT * FROM c", { partitionKey: [oldClientName, oldSlug] })
+      .fetchAll();
+
+    const now = new Date().toISOString();
+    const copies = documents
+      .filter(doc => doc.id !== project.id)
+      .concat({ ...project, updatedAt: now })
+      .map(doc => {
+        const copy: Record<string, any> = { ...doc, client_name: newClientName, slug: newSlug };
+        SYSTEM_PROPERTIES.forEach(prop => delete copy[prop]);
+        return copy;
+      });
+
+    const redirect: ProjectRedirect = {
+      id: project.id,
+      docType: "projectRedirect",
+      client_name: oldClientName,
+      slug: oldSlug,
+      projectId: project.id,
+      target: { client_name: newClientName, slug: newSlug },
+      movedAt: now,
+      movedBy
+    };
+
+    try {
+      await this.createDocuments(newClientName, newSlug, copies);
+
+      await this.executeBatch([{
+        operationType: BulkOperationType.Replace,
+        id: project.id,
+        resourceBody: redirect as any,
+        ifMatch: project._etag
+      }], oldClientName, oldSlug);
+    } catch (error) {
+      await this.rollbackDocuments(newClientName, newSlug, project.id, copies.map(doc => doc.id));
+      throw error;
+    }
+
+    await this.batchPartition(oldClientName, oldSlug, project.id, `c.docType != "projectRedirect"`, id => ({
+      operationType: BulkOperationType.Delete,
+      id
+    }));
+
+    return (await this.getById(project.id, newClientName, newSlug))!;
+  }
+
+  /**
+   * Get the documents of the given types in a project's partition
+   */
+  async getPartitionDocuments(
+    clientName: string,
+    slug: string,
+    docTypes: string[]
+  ): Promise<Array<Record<string, any>>> {
+    const querySpec = {
+      query: "SELECT * FROM c WHERE ARRAY_CONTAINS(@docTypes, c.docType)",
+      parameters: [{ name: "@docTypes", value: docTypes }]
+    };
+
+    const { resources } = await this.container.items
+      .query<Record<string, any>>(querySpec, { partitionKey: [clientName, slug] })
+      .fetchAll();
+    return resources;
+  }
+
+  /**
+   * Create a project in a new partition together with related documents (members, floors, ...).
+   * The related documents are written first and the project last, so the project only becomes
+   * visible once everything else is in place; if a write fails the partition is cleared again.
+   * Throws with code 409 if the partition is not empty.
+   */
+  async createWithDocuments(
+    project: Omit<Project, "docType">,
+    documents: Array<Record<string, any>>,
+    options: ProjectWriteOptions = {}
+  ): Promise<Project> {
+    await this.claimPartition(project.client_name, project.slug, project.id);
+
+    try {
+      await this.createDocuments(project.client_name, project.slug, documents.map(doc => {
+        const copy: Record<string, any> = { ...doc, client_name: project.client_name, slug: project.slug };
+        SYSTEM_PROPERTIES.forEach(prop => delete copy[prop]);
+        return copy;
+      }));
+
+      return await this.create(project, options);
+    } catch (error) {
+      await this.rollbackDocuments(
+        project.client_name,
+        project.slug,
+        project.id,
+        [...documents.map(doc => doc.id), project.id, `${project.id}:rev:1`]
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure a partition is free for a new project. Redirect stubs left by a moved
+   * project are removed; anything else is a conflict (code 409).
+   */
+  private async claimPartition(clientName: string, slug: string, projectId: string): Promise<void> {
+    await this.batchPartition(clientName, slug, projectId, `c.docType = "projectRedirect"`, id => ({
+      operationType: BulkOperationType.Delete,
+      id
+    }));
+
+    const { resources: existing } = await this.container.items
+      .query("SELECT VALUE COUNT(1) FROM c", { partitionKey: [clientName, slug] })
+      .fetchAll();
+    if (existing[0] > 0) {
+      const error: any = new Error(`Partition [${clientName}, ${slug}] is not empty`);
+      error.code = 409;
+      throw error;
+    }
+  }
+
+  /**
+   * Create documents in a partition in transactional batches of up to 100
+   */
+  private async createDocuments(
+    clientName: string,
+    slug: string,
+    documents: Array<Record<string, any>>
+  ): Promise<void> {
+    for (let i = 0; i < documents.length; i += MAX_BATCH_OPERATIONS) {
+      const operations: OperationInput[] = documents
+        .slice(i, i + MAX_BATCH_OPERATIONS)
+        .map(doc => ({ operationType: BulkOperationType.Create, resourceBody: doc }));
+      await this.executeBatch(operations, clientName, slug);
+    }
+  }
+
+  /**
+   * Remove the documents a failed copy managed to write. Only the given ids are touched,
+   * so a concurrent write to the same partition is left alone.
+   */
+  private async rollbackDocuments(
+    clientName: string,
+    slug: string,
+    projectId: string,
+    ids: string[]
+  ): Promise<void> {
+    // Ids are generated or copied by the server, and JSON string literals are valid in Cosmos SQL
+    await this.batchPartition(clientName, slug, projectId, `ARRAY_CONTAINS(${JSON.stringify(ids)}, c.id)`, id => ({
+      operationType: BulkOperationType.Delete,
+      id
+    }));
+  }
+
+  /**
+   * Apply one operation to every document in a partition matching a filter, in transactional
+   * batches. The project document goes last so a partially failed run can be retried
+   * through the same project.
+   */
+  private async batchPartition(
+    clientName: string,
+    slug: string,
+    projectId: string,
+    filter: string,
+    toOperation: (id: string) => OperationInput
+  ): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string }>(
+        `SELECT c.id FROM c${filter ? ` WHERE ${filter}` : ""}`,
+        { partitionKey: [clientName, slug] }
+      )
+      .fetchAll();
+
+    const ids = resources
+      .map(r => r.id)
+      .sort((a, b) => Number(a === projectId) - Number(b === projectId));
+
+    for (let i = 0; i < ids.length; i += MAX_BATCH_OPERATIONS) {
+      const operations = ids.slice(i, i + MAX_BATCH_OPERATIONS).map(toOperation);
+
+      await this.executeBatch(operations, clientName, slug);
+    }
+  }
 }
\ No newline at end of file
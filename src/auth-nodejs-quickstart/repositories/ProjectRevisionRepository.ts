@@ -0,0 +1,85 @@
+// repositories/ProjectRevisionRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository, PageOptions, PagedResult } from "./Repository";
+import { ProjectRevision } from "../models/ProjectRevision";
+
+/**
+ * Read access to project revisions. Revisions are written by ProjectRepository in the
+ * same transaction as the project change they record.
+ */
+export class ProjectRevisionRepository extends Repository<ProjectRevision> {
+  constructor(container: Container) {
+    super(container, "projectRevision");
+  }
+
+  /**
+   * Get a single revision of a project
+   */
+  async getRevision(
+    projectId: string,
+    clientName: string,
+    slug: string,
+    revision: number
+  ): Promise<ProjectRevision | undefined> {
+    return await this.getById(`${projectId}:rev:${revision}`, clientName, slug);
+  }
+
+  /**
+   * Get a page of a project's revisions, newest first
+   */
+  async getRevisionsPage(
+    projectId: string,
+    clientName: string,
+    slug: string,
+    page: PageOptions
+  ): Promise<PagedResult<ProjectRevision>> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.projectId = @projectId
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.revision DESC
+      `,
+      parameters: [
+        { name: "@docType", value: "projectRevision" },
+        { name: "@projectId", value: projectId },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: slug }
+      ]
+    };
+
+    return await this.queryPage(querySpec, page);
+  }
+
+  /**
+   * Get every revision of a project made after the given revision
+   */
+  async getRevisionsAfter(
+    projectId: string,
+    clientName: string,
+    slug: string,
+    revision: number
+  ): Promise<ProjectRevision[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.projectId = @projectId
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        AND c.revision > @revision
+      `,
+      parameters: [
+        { name: "@docType", value: "projectRevision" },
+        { name: "@projectId", value: projectId },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: slug },
+        { name: "@revision", value: revision }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+}
@@ -1,32 +1,108 @@
 // repositories/Repository.ts
-import { Container } from "@azure/cosmos";
+import { BulkOperationType, Container, OperationInput, OperationResponse, PatchOperation } from "@azure/cosmos";
+import { TransactionalBatch } from "./TransactionalBatch";
 
 export interface BaseEntity {
   id: string;
   client_name: string;
   slug: string;
   docType: string;
+  _etag?: string;          // Set by Cosmos DB on every write
 }
 
+export interface WriteOptions {
+  ifMatch?: string;        // Only write if the stored document still has this _etag
+}
+
+export interface PageOptions {
+  maxItemCount: number;
+  continuationToken?: string;
+}
+
+export interface PagedResult<T> {
+  resources: T[];
+  continuationToken?: string;
+}
+
+const MAX_UPDATE_ATTEMPTS = 3;
+const MAX_PATCH_OPERATIONS = 10;   // Cosmos DB limit per patch request
+
 export class Repository<T extends BaseEntity> {
   constructor(
-    private container: Container,
+    protected container: Container,
     private docType: string
   ) {}
 
+  /**
+   * Hook for subclasses to derive fields before a document is written
+   */
+  protected prepareForWrite(entity: T): T {
+    return entity;
+  }
+
   /**
    * Create a new entity in the container
    */
   async create(entity: Omit<T, 'docType'> & Partial<Pick<T, 'docType'>>): Promise<T> {
-    const entityWithDocType = {
-      ...entity,
-      docType: this.docType
-    } as T;
+    const entityWithDocType = this.toDocument(entity);
     
     const { resource } = await this.container.items.create(entityWithDocType);
     return resource as T;
   }
 
+  /**
+   * Start a transactional batch in one partition. Operations from any repository
+   * sharing the container can be added; they are applied all-or-nothing.
+   */
+  batch(clientName: string, slug: string): TransactionalBatch {
+    return new TransactionalBatch(this.container, clientName, slug);
+  }
+
+  /**
+   * Batch operations that create an entity, for use with batch().
+   * Subclasses may add related documents that must be written with it.
+   */
+  createOperations(
+    entity: Omit<T, 'docType'> & Partial<Pick<T, 'docType'>>,
+    options: WriteOptions = {}
+  ): OperationInput[] {
+    return [{
+      operationType: BulkOperationType.Create,
+      resourceBody: this.toDocument(entity) as any
+    }];
+  }
+
+  /**
+   * Batch operations that replace a stored entity with an updated version,
+   * conditional on options.ifMatch or the stored _etag
+   */
+  replaceOperations(existing: T, updated: T, options: WriteOptions = {}): OperationInput[] {
+    return [{
+      operationType: BulkOperationType.Replace,
+      id: existing.id,
+      resourceBody: this.prepareForWrite(updated) as any,
+      ifMatch: options.ifMatch || existing._etag
+    }];
+  }
+
+  /**
+   * Batch operation that deletes an entity, conditional on options.ifMatch
+   */
+  deleteOperation(id: string, options: WriteOptions = {}): OperationInput {
+    return {
+      operationType: BulkOperationType.Delete,
+      id,
+      ...(options.ifMatch && { ifMatch: options.ifMatch })
+    };
+  }
+
+  private toDocument(entity: Omit<T, 'docType'> & Partial<Pick<T, 'docType'>>): T {
+    return this.prepareForWrite({
+      ...entity,
+      docType: this.docType
+    } as T);
+  }
+
   /**
    * Get an entity by ID using the hierarchical partition key
    */
@@ -75,28 +151,107 @@ export class Repository<T extends BaseEntity> {
   }
 
   /**
-   * Update an entity
+   * Update an entity.
+   * The write is conditional on the _etag that was read, so concurrent updates are never
+   * silently overwritten. When options.ifMatch is given, a mismatch surfaces as a Cosmos
+   * 412 error; otherwise the read-merge-write is retried against the latest version.
    */
   async update(
     id: string, 
     clientName: string, 
     slug: string, 
-    updates: Partial<Omit<T, "id" | "slug" | "client_name" | "docType">>
+    updates: Partial<Omit<T, "id" | "slug" | "client_name" | "docType">>,
+    options: WriteOptions = {}
   ): Promise<T> {
-    const existing = await this.getById(id, clientName, slug);
-    if (!existing) {
-      throw new Error(
-        `${this.docType} with id ${id}, client_name ${clientName}, and slug ${slug} not found`
-      );
+    for (let attempt = 1; ; attempt++) {
+      const existing = await this.getById(id, clientName, slug);
+      if (!existing) {
+        throw new Error(
+          `${this.docType} with id ${id}, client_name ${clientName}, and slug ${slug} not found`
+        );
+      }
+
+      const updated: T = this.prepareForWrite({
+        ...existing,
+        ...updates
+      } as T);
+
+      try {
+        return await this.replaceDocument(existing, updated, options);
+      } catch (error: any) {
+        if (error.code === 412 && !options.ifMatch && attempt < MAX_UPDATE_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
     }
+  }
+
+  /**
+   * Write a merged document over the stored one, conditional on options.ifMatch or the
+   * _etag that was read. Subclasses can override this to write related documents in the
+   * same transaction.
+   */
+  protected async replaceDocument(existing: T, updated: T, options: WriteOptions): Promise<T> {
+    const { resource } = await this.container
+      .item(existing.id, [existing.client_name, existing.slug])
+      .replace<T>(updated, {
+        accessCondition: { type: "IfMatch", condition: options.ifMatch || existing._etag! }
+      });
+    return resource as T;
+  }
 
-    const updated: T = {
-      ...existing,
-      ...updates
-    } as T;
+  /**
+   * Apply Cosmos DB partial document update operations to an entity.
+   * Cosmos accepts up to 10 operations per patch; larger patches are split across a
+   * transactional batch so they still apply atomically.
+   */
+  async patch(
+    id: string,
+    clientName: string,
+    slug: string,
+    operations: PatchOperation[],
+    options: WriteOptions = {}
+  ): Promise<T> {
+    if (operations.length <= MAX_PATCH_OPERATIONS) {
+      const { resource } = await this.container
+        .item(id, [clientName, slug])
+        .patch<T>({ operations }, {
+          accessCondition: options.ifMatch ? { type: "IfMatch", condition: options.ifMatch } : undefined
+        });
+      return resource as T;
+    }
 
-    const { resource } = await this.container.items.upsert(updated);
-    return resource as unknown as T;
+    const result = await this.executeBatch(this.toPatchBatch(id, operations, options), clientName, slug);
+    return result[result.length - 1].resourceBody as unknown as T;
+  }
+
+  /**
+   * Split patch operations into batch operations of at most 10 patch operations each
+   */
+  protected toPatchBatch(id: string, operations: PatchOperation[], options: WriteOptions = {}): OperationInput[] {
+    const batch: OperationInput[] = [];
+    for (let i = 0; i < operations.length; i += MAX_PATCH_OPERATIONS) {
+      batch.push({
+        operationType: BulkOperationType.Patch,
+        id,
+        resourceBody: { operations: operations.slice(i, i + MAX_PATCH_OPERATIONS) },
+        // Later chunks see the etag written by the first, so only the first is conditional
+        ...(i === 0 && options.ifMatch ? { ifMatch: options.ifMatch } : {})
+      });
+    }
+    return batch;
+  }
+
+  /**
+   * Execute a transactional batch in one partition, see TransactionalBatch.execute
+   */
+  protected async executeBatch(
+    operations: OperationInput[],
+    clientName: string,
+    slug: string
+  ): Promise<OperationResponse[]> {
+    return await this.batch(clientName, slug).add(...operations).execute();
   }
 
   /**
@@ -126,4 +281,22 @@ export class Repository<T extends BaseEntity> {
     const { resources } = await this.container.items.query<T>(querySpec).fetchAll();
     return resources;
   }
-}
+
+  /**
+   * Execute a custom query and return a single page of results
+   * along with the Cosmos continuation token for the next page
+   */
+  async queryPage(
+    querySpec: { query: string; parameters?: Array<{ name: string; value: any }> },
+    options: PageOptions
+  ): Promise<PagedResult<T>> {
+    const { resources, continuationToken } = await this.container.items
+      .query<T>(querySpec, {
+        maxItemCount: options.maxItemCount,
+        continuationToken: options.continuationToken
+      })
+      .fetchNext();
+
+    return { resources, continuationToken };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+// repositories/RoleDefinitionRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { RoleDefinition } from "../models/RoleDefinition";
+
+// Second partition key part of a client's role definitions; project slugs cannot start with "_"
+export const ROLES_PARTITION = "_roles";
+
+/**
+ * Custom role definitions, one document per role in a partition of its own per client
+ */
+export class RoleDefinitionRepository extends Repository<RoleDefinition> {
+  constructor(container: Container) {
+    super(container, "roleDefinition");
+  }
+
+  /**
+   * Get all role definitions of a client, by name
+   */
+  async getDefinitions(clientName: string): Promise<RoleDefinition[]> {
+    const querySpec = {
+      query: `
+        SELECT * FROM c 
+        WHERE c.docType = @docType 
+        AND c.client_name = @clientName
+        AND c.slug = @slug
+        ORDER BY c.name
+      `,
+      parameters: [
+        { name: "@docType", value: "roleDefinition" },
+        { name: "@clientName", value: clientName },
+        { name: "@slug", value: ROLES_PARTITION }
+      ]
+    };
+
+    return await this.query(querySpec);
+  }
+
+  async getDefinition(clientName: string, name: string): Promise<RoleDefinition | undefined> {
+    return await this.getById(name, clientName, ROLES_PARTITION);
+  }
+
+  async deleteDefinition(clientName: string, name: string): Promise<void> {
+    await this.delete(name, clientName, ROLES_PARTITION);
+  }
+
+  /**
+   * Count the members, group grants, pending invitations and pending access requests of a
+   * client's projects that use a role (cross-partition query)
+   */
+  async countAssignments(clientName: string, name: string): Promise<number> {
+    const { resources } = await this.container.items
+      .query<number>({
+        query: `
+          SELECT VALUE COUNT(1) FROM c
+          WHERE c.client_name = @clientName
+          AND c.role = @role
+          AND (
+            c.docType = "projectMember"
+            OR c.docType = "projectGroupGrant"
+            OR (c.docType = "projectInvitation" AND c.status = "pending")
+            OR (c.docType = "projectAccessRequest" AND c.status = "pending")
+          )
+        `,
+        parameters: [
+          { name: "@clientName", value: clientName },
+          { name: "@role", value: name }
+        ]
+      })
+      .fetchAll();
+
+    return resources.reduce((sum, count) => sum + count, 0);
+  }
+}
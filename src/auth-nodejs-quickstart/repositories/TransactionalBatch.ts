@@ -0,0 +1,53 @@
+// repositories/TransactionalBatch.ts
+import { Container, OperationInput, OperationResponse } from "@azure/cosmos";
+
+const MAX_BATCH_OPERATIONS = 100;   // Cosmos DB transactional batch limit
+
+/**
+ * All-or-nothing set of writes to one [client_name, slug] partition.
+ * Collect operations (e.g. from Repository.createOperation) and execute them together;
+ * Cosmos applies all of them or none.
+ */
+export class TransactionalBatch {
+  private operations: OperationInput[] = [];
+
+  constructor(
+    private container: Container,
+    private clientName: string,
+    private slug: string
+  ) {}
+
+  /**
+   * Add operations to the batch, in execution order
+   */
+  add(...operations: OperationInput[]): this {
+    this.operations.push(...operations);
+    return this;
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Execute the batch. A failed batch is thrown as an error whose `code` is the status
+   * of the failing operation (e.g. 409 for a create conflict, 412 for an ifMatch mismatch).
+   */
+  async execute(): Promise<OperationResponse[]> {
+    if (this.operations.length > MAX_BATCH_OPERATIONS) {
+      throw new Error(`A transactional batch holds at most ${MAX_BATCH_OPERATIONS} operations`);
+    }
+
+    const { result } = await this.container.items.batch(this.operations, [this.clientName, this.slug]);
+
+    // Operations that did not fail themselves report 424 (failed dependency)
+    const failed = result?.find(r => r.statusCode >= 400 && r.statusCode !== 424);
+    if (!result || failed) {
+      const error: any = new Error(`Transactional batch failed in partition [${this.clientName}, ${this.slug}]`);
+      error.code = failed?.statusCode ?? 500;
+      throw error;
+    }
+
+    return result;
+  }
+}
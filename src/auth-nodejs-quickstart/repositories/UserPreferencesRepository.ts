@@ -0,0 +1,141 @@
+// repositories/UserPreferencesRepository.ts
+import { Container } from "@azure/cosmos";
+import { Repository } from "./Repository";
+import { FavoriteProject, ProjectRef, RecentProject, UserPreferences } from "../models/UserPreferences";
+
+// First partition key part of user documents; cannot clash with a client name used by projects
+const USER_PARTITION = "_users";
+const USER_PREFERENCES_ID = "preferences";
+const MAX_UPDATE_ATTEMPTS = 3;
+export const MAX_FAVORITES = 200;
+export const MAX_RECENT_PROJECTS = 20;
+// Repeated views of the same project within this window are not written again
+const RECENT_VIEW_DEBOUNCE_MS = 60 * 1000;
+
+/**
+ * Per-user favorites and recently viewed projects
+ */
+export class UserPreferencesRepository extends Repository<UserPreferences> {
+  constructor(container: Container) {
+    super(container, "userPreferences");
+  }
+
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    return (await this.getById(USER_PREFERENCES_ID, USER_PARTITION, userId)) ?? this.emptyPreferences(userId);
+  }
+
+  /**
+   * Add a project to the favorites. Returns false if the favorites are full.
+   */
+  async addFavorite(userId: string, project: ProjectRef): Promise<boolean> {
+    let added = true;
+
+    await this.modify(userId, preferences => {
+      added = true;
+      const existing = preferences.favorites.find(f => f.projectId === project.projectId);
+      if (existing) {
+        // Refresh the key in case the project was moved
+        const favorite: FavoriteProject = { ...existing, ...toRef(project) };
+        return { ...preferences, favorites: preferences.favorites.map(f => f === existing ? favorite : f) };
+      }
+      if (preferences.favorites.length >= MAX_FAVORITES) {
+        added = false;
+        return undefined;
+      }
+      const favorite: FavoriteProject = { ...toRef(project), addedAt: new Date().toISOString() };
+      return { ...preferences, favorites: [favorite, ...preferences.favorites] };
+    });
+
+    return added;
+  }
+
+  /**
+   * Remove favorites by project id or, for projects that no longer resolve, by key.
+   * Returns false if nothing matched.
+   */
+  async removeFavorite(userId: string, match: (favorite: FavoriteProject) => boolean): Promise<boolean> {
+    let removed = false;
+
+    await this.modify(userId, preferences => {
+      const favorites = preferences.favorites.filter(f => !match(f));
+      removed = favorites.length < preferences.favorites.length;
+      return removed ? { ...preferences, favorites } : undefined;
+    });
+
+    return removed;
+  }
+
+  /**
+   * Move a project to the top of the recently viewed list
+   */
+  async recordView(userId: string, project: ProjectRef): Promise<void> {
+    await this.modify(userId, preferences => {
+      const [latest] = preferences.recent;
+      if (
+        latest?.projectId === project.projectId &&
+        latest.client_name === project.client_name &&
+        latest.slug === project.slug &&
+        Date.now() - Date.parse(latest.viewedAt) < RECENT_VIEW_DEBOUNCE_MS
+      ) {
+        return undefined;
+      }
+
+      const view: RecentProject = { ...toRef(project), viewedAt: new Date().toISOString() };
+      const recent = [view, ...preferences.recent.filter(r => r.projectId !== project.projectId)];
+      return { ...preferences, recent: recent.slice(0, MAX_RECENT_PROJECTS) };
+    });
+  }
+
+  /**
+   * Read-modify-write of the preferences document, retried when another request wrote
+   * it in between. `change` returns undefined to skip the write.
+   */
+  private async modify(
+    userId: string,
+    change: (preferences: UserPreferences) => UserPreferences | undefined
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const existing = await this.getById(USER_PREFERENCES_ID, USER_PARTITION, userId);
+      const changed = change(existing ?? this.emptyPreferences(userId));
+      if (!changed) {
+        return;
+      }
+
+      const updatedAt = new Date().toISOString();
+
+      try {
+        if (existing) {
+          await this.update(USER_PREFERENCES_ID, USER_PARTITION, userId, { ...changed, updatedAt }, {
+            ifMatch: existing._etag
+          });
+        } else {
+          await this.create({ ...changed, updatedAt });
+        }
+        return;
+      } catch (error: any) {
+        // 412: changed since read; 409: created by a concurrent request
+        if ((error.code === 412 || error.code === 409) && attempt < MAX_UPDATE_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private emptyPreferences(userId: string): UserPreferences {
+    return {
+      id: USER_PREFERENCES_ID,
+      docType: "userPreferences",
+      client_name: USER_PARTITION,
+      slug: userId,
+      userId,
+      favorites: [],
+      recent: [],
+      updatedAt: new Date().toISOString()
+    };
+  }
+}
+
+function toRef(project: ProjectRef): ProjectRef {
+  return { projectId: project.projectId, client_name: project.client_name, slug: project.slug };
+}
@@ -0,0 +1,198 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import { requireClientAccess, AuthRequest } from '../utils/auth/AuthMiddleware';
+import { ClientAdminRepository, CLIENT_ADMINS_PARTITION } from '../repositories/ClientAdminRepository';
+import { validateBody } from '../utils/validation/SchemaValidator';
+import { idempotent } from '../utils/http/Idempotency';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+let clientAdminRepo: ClientAdminRepository;
+
+export function initClientAdminRoutes(container: Container) {
+  clientAdminRepo = new ClientAdminRepository(container);
+  return router;
+}
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/admins:
+ *   get:
+ *     summary: List the admins of a client
+ *     tags: [Client Admins]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Client admins, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ClientAdmin'
+ *       403:
+ *         description: The caller has no project on this client and is no admin of it
+ */
+router.get('/clients/:client_name/admins',
+  ...requireClientAccess('project:read') as any,
+  async (req: Request, res: Response) => {
+    const { client_name } = req.params;
+
+    try {
+      res.json(await clientAdminRepo.getAdmins(client_name));
+    } catch (error: any) {
+      logger.error('Error fetching client admins', error, { client_name });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/admins:
+ *   post:
+ *     summary: Make a user an admin of a client
+ *     description: |
+ *       Client admins manage the client's custom fields and admins and may create projects
+ *       under the client. Project roles never give these rights.
+ *     tags: [Client Admins]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClientAdminCreate'
+ *     responses:
+ *       201:
+ *         description: Admin added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClientAdmin'
+ *       400:
+ *         description: Validation failed
+ *       403:
+ *         description: Client admin required
+ *       409:
+ *         description: The user is already an admin of this client
+ */
+router.post('/clients/:client_name/admins',
+  ...requireClientAccess('clientAdmins:manage') as any,
+  validateBody('ClientAdminCreate'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name } = req.params;
+    const { userId, email, userName } = req.body;
+
+    try {
+      const admin = await clientAdminRepo.create({
+        id: userId,
+        client_name,
+        slug: CLIENT_ADMINS_PARTITION,
+        userId,
+        email,
+        userName: userName || email,
+        grantedAt: new Date().toISOString(),
+        grantedBy: authReq.user.userId
+      });
+
+      logger.info('Client admin added', { client_name, userId, grantedBy: authReq.user.userId });
+
+      res.status(201).json(admin);
+    } catch (error: any) {
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'admin_exists',
+          message: `User is already an admin of ${client_name}`
+        });
+      }
+      logger.error('Error adding client admin', error, { client_name, userId });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/admins/{userId}:
+ *   delete:
+ *     summary: Remove an admin of a client
+ *     description: Admins can remove themselves, but a client always keeps at least one admin.
+ *     tags: [Client Admins]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Admin removed
+ *       403:
+ *         description: Client admin required
+ *       404:
+ *         description: The user is no admin of this client
+ *       409:
+ *         description: The user is the last admin, or the admins changed concurrently
+ */
+router.delete('/clients/:client_name/admins/:userId',
+  ...requireClientAccess('clientAdmins:manage') as any,
+  async (req: Request, res: Response) => {
+    const { client_name, userId } = req.params;
+
+    try {
+      await clientAdminRepo.removeAdmin(client_name, userId);
+
+      logger.info('Client admin removed', { client_name, userId });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === 404) {
+        return res.status(404).json({ error: 'admin_not_found', message: 'User is not an admin of this client' });
+      }
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'last_admin',
+          message: 'A client must keep at least one admin. Add another admin first.'
+        });
+      }
+      if (error.code === 412) {
+        return res.status(409).json({
+          error: 'conflict',
+          message: 'The admins of this client changed during the request. Please retry.'
+        });
+      }
+      logger.error('Error removing client admin', error, { client_name, userId });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,289 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import { requireClientAccess, AuthRequest } from '../utils/auth/AuthMiddleware';
+import { CustomFieldRepository, CUSTOM_FIELDS_PARTITION } from '../repositories/CustomFieldRepository';
+import { CustomFieldDefinition } from '../models/CustomField';
+import { sendValidationErrors, validateBody } from '../utils/validation/SchemaValidator';
+import { validateDefinitionValues } from '../utils/validation/CustomFields';
+import { getIfMatch, isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+let customFieldRepo: CustomFieldRepository;
+
+export function initCustomFieldRoutes(container: Container) {
+  customFieldRepo = new CustomFieldRepository(container);
+  return router;
+}
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/custom-fields:
+ *   get:
+ *     summary: List the custom field definitions of a client
+ *     tags: [Custom Fields]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Field definitions, by key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CustomFieldDefinition'
+ *       403:
+ *         description: The caller has no project on this client and is no admin of it
+ */
+router.get('/clients/:client_name/custom-fields',
+  ...requireClientAccess('project:read') as any,
+  async (req: Request, res: Response) => {
+    const { client_name } = req.params;
+
+    try {
+      res.json(await customFieldRepo.getDefinitions(client_name));
+    } catch (error: any) {
+      logger.error('Error fetching custom field definitions', error, { client_name });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/custom-fields:
+ *   post:
+ *     summary: Define a custom field for the projects of a client
+ *     description: |
+ *       Values are stored in Project.customFields[key] and validated on every project write.
+ *       Adding a required field does not change existing projects, but the next write of
+ *       their customFields must provide a value.
+ *     tags: [Custom Fields]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CustomFieldDefinitionCreate'
+ *     responses:
+ *       201:
+ *         description: Field defined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CustomFieldDefinition'
+ *       400:
+ *         description: Validation failed
+ *       403:
+ *         description: Client admin required
+ *       409:
+ *         description: A field with this key already exists
+ */
+router.post('/clients/:client_name/custom-fields',
+  ...requireClientAccess('customFields:manage') as any,
+  validateBody('CustomFieldDefinitionCreate'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name } = req.params;
+    const { key, label, description, type, required = false, values } = req.body;
+
+    try {
+      const errors = validateDefinitionValues({ type, values });
+      if (errors.length > 0) {
+        return sendValidationErrors(res, errors);
+      }
+
+      const now = new Date().toISOString();
+      const definition = await customFieldRepo.create({
+        id: key,
+        client_name,
+        slug: CUSTOM_FIELDS_PARTITION,
+        key,
+        label,
+        ...(description !== undefined && { description }),
+        type,
+        required,
+        ...(values !== undefined && { values }),
+        createdAt: now,
+        createdBy: authReq.user.userId,
+        updatedAt: now
+      });
+
+      logger.info('Custom field defined', { client_name, key, type, required });
+
+      setETag(res, definition);
+      res.status(201).json(definition);
+    } catch (error: any) {
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'custom_field_exists',
+          message: `Custom field ${key} is already defined for ${client_name}`
+        });
+      }
+      logger.error('Error creating custom field definition', error, { client_name, key });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/custom-fields/{key}:
+ *   put:
+ *     summary: Update a custom field definition
+ *     description: The key cannot be changed. Existing project values are checked again when their customFields are next written.
+ *     tags: [Custom Fields]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CustomFieldDefinitionUpdate'
+ *     responses:
+ *       200:
+ *         description: Definition updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CustomFieldDefinition'
+ *       400:
+ *         description: Validation failed
+ *       403:
+ *         description: Client admin required
+ *       404:
+ *         description: Custom field not found
+ *       412:
+ *         description: Definition was modified since the If-Match ETag was read
+ */
+router.put('/clients/:client_name/custom-fields/:key',
+  ...requireClientAccess('customFields:manage') as any,
+  validateBody('CustomFieldDefinitionUpdate'),
+  async (req: Request, res: Response) => {
+    const { client_name, key } = req.params;
+
+    try {
+      const existing = await customFieldRepo.getDefinition(client_name, key);
+      if (!existing) {
+        return res.status(404).json({ error: 'custom_field_not_found', message: 'Custom field not found' });
+      }
+
+      const updates: Partial<CustomFieldDefinition> = { ...req.body, updatedAt: new Date().toISOString() };
+      const errors = validateDefinitionValues({
+        type: updates.type ?? existing.type,
+        values: 'values' in updates ? updates.values : existing.values
+      });
+      if (errors.length > 0) {
+        return sendValidationErrors(res, errors);
+      }
+
+      const definition = await customFieldRepo.update(key, client_name, CUSTOM_FIELDS_PARTITION, updates, {
+        ifMatch: getIfMatch(req)
+      });
+
+      logger.info('Custom field updated', { client_name, key, fields: Object.keys(req.body) });
+
+      setETag(res, definition);
+      res.json(definition);
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Custom field was modified by another request. Fetch the latest version and retry.'
+        });
+      }
+      logger.error('Error updating custom field definition', error, { client_name, key });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/custom-fields/{key}:
+ *   delete:
+ *     summary: Delete a custom field definition
+ *     description: |
+ *       Existing project values are kept, but are rejected as unknown fields the next time the
+ *       project's customFields are written unless they are removed.
+ *     tags: [Custom Fields]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Definition deleted
+ *       403:
+ *         description: Client admin required
+ *       404:
+ *         description: Custom field not found
+ */
+router.delete('/clients/:client_name/custom-fields/:key',
+  ...requireClientAccess('customFields:manage') as any,
+  async (req: Request, res: Response) => {
+    const { client_name, key } = req.params;
+
+    try {
+      await customFieldRepo.deleteDefinition(client_name, key);
+
+      logger.info('Custom field deleted', { client_name, key });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === 404) {
+        return res.status(404).json({ error: 'custom_field_not_found', message: 'Custom field not found' });
+      }
+      logger.error('Error deleting custom field definition', error, { client_name, key });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
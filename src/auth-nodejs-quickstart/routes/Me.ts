@@ -0,0 +1,349 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import { verifyJWT, checkProjectAccess, getCachedUserProjectAccess, AuthRequest } from '../utils/auth/AuthMiddleware';
+import { ProjectRepository } from '../repositories/ProjectRepository';
+import { ProjectMemberRepository } from '../repositories/ProjectMemberRepository';
+import { UserPreferencesRepository, MAX_FAVORITES } from '../repositories/UserPreferencesRepository';
+import { ProjectListItem } from '../models/Project';
+import { ProjectRole, TokenUser } from '../models/ProjectMember';
+import { ProjectRef } from '../models/UserPreferences';
+import { CONTENT_PERMISSIONS, getRolePermissions } from '../utils/auth/Permissions';
+import { toMemberResponse } from '../utils/auth/Memberships';
+import { isReadOnlyStatus } from '../utils/lifecycle/ProjectLifecycle';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+let projectRepo: ProjectRepository;
+let projectMemberRepo: ProjectMemberRepository;
+let preferencesRepo: UserPreferencesRepository;
+
+export function initMeRoutes(container: Container) {
+  projectRepo = new ProjectRepository(container);
+  projectMemberRepo = new ProjectMemberRepository(container);
+  preferencesRepo = new UserPreferencesRepository(container);
+  return router;
+}
+
+/**
+ * Resolve preference entries to the current project documents, keeping their order.
+ * Projects the user can no longer access (or that are in the trash) are left out.
+ */
+async function toProjectItems<T extends ProjectRef>(
+  user: TokenUser,
+  refs: T[],
+  favoriteIds: Set<string>
+): Promise<Array<ProjectListItem & Omit<T, keyof ProjectRef>>> {
+  const access = await getCachedUserProjectAccess(user);
+  const roles = new Map(access.map(a => [a.projectId, a.role as ProjectRole]));
+
+  const ids = refs.map(r => r.projectId).filter(id => roles.has(id));
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const projects = new Map((await projectRepo.getProjectsByIds(ids)).map(p => [p.id, p]));
+
+  return refs
+    .filter(ref => projects.has(ref.projectId))
+    .map(({ projectId, client_name, slug, ...rest }) => ({
+      ...projects.get(projectId)!,
+      role: roles.get(projectId)!,
+      favorite: favoriteIds.has(projectId),
+      ...rest
+    }));
+}
+
+/**
+ * @swagger
+ * /api/me:
+ *   get:
+ *     summary: Get the signed-in user and what they can access
+ *     description: |
+ *       The user from the access token, and every project they can access (individually or
+ *       through groups) with their role and its permissions.
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The caller
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Me'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me', verifyJWT, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+
+  try {
+    const access = await getCachedUserProjectAccess(authReq.user);
+
+    const projects = await Promise.all(access.map(async ({ projectId, client_name, slug, role, expiresAt }) => ({
+      projectId,
+      client_name,
+      slug,
+      role,
+      permissions: await getRolePermissions(client_name, role),
+      ...(expiresAt && { expiresAt })
+    })));
+
+    res.json({ user: authReq.user, projects });
+  } catch (error: any) {
+    logger.error('Error fetching the signed-in user', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/me:
+ *   get:
+ *     summary: Get the caller's role and permissions on a project
+ *     description: |
+ *       permissions are the ones that currently apply: on a read-only (archived) project the
+ *       permissions that change its content are left out. membership is the caller's own
+ *       membership, or null if they only have access through a group.
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The caller's access to the project
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MyProjectAccess'
+ *       403:
+ *         description: The caller has no access to the project
+ *       404:
+ *         description: Project not found
+ */
+router.get('/projects/:client_name/:slug/me',
+  verifyJWT,
+  checkProjectAccess,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const projectId = authReq.projectId!;
+
+    try {
+      const [permissions, member] = await Promise.all([
+        getRolePermissions(client_name, authReq.userRole!),
+        projectMemberRepo.getMember(authReq.user.userId, projectId, client_name, slug)
+      ]);
+      const readOnly = !!authReq.projectStatus && isReadOnlyStatus(authReq.projectStatus);
+
+      res.json({
+        projectId,
+        client_name,
+        slug,
+        role: authReq.userRole,
+        permissions: readOnly ? permissions.filter(p => !CONTENT_PERMISSIONS.includes(p)) : permissions,
+        readOnly,
+        membership: member ? toMemberResponse(member) : null
+      });
+    } catch (error: any) {
+      logger.error('Error fetching project access of the caller', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/me/favorites:
+ *   get:
+ *     summary: List the caller's favorite projects
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Favorite projects, most recently added first, with the caller's role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/FavoriteProject'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me/favorites', verifyJWT, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+
+  try {
+    const preferences = await preferencesRepo.getPreferences(authReq.user.userId);
+    const favoriteIds = new Set(preferences.favorites.map(f => f.projectId));
+
+    res.json(await toProjectItems(authReq.user, preferences.favorites, favoriteIds));
+  } catch (error: any) {
+    logger.error('Error fetching favorite projects', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/me/favorites/{client_name}/{slug}:
+ *   put:
+ *     summary: Add a project to the caller's favorites
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Project is a favorite (adding it again has no effect)
+ *       403:
+ *         description: The caller is not a member of the project
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: The caller already has the maximum number of favorites
+ */
+router.put('/me/favorites/:client_name/:slug',
+  verifyJWT,
+  checkProjectAccess,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+
+    try {
+      const added = await preferencesRepo.addFavorite(authReq.user.userId, {
+        projectId: authReq.projectId!,
+        client_name,
+        slug
+      });
+
+      if (!added) {
+        return res.status(409).json({
+          error: 'too_many_favorites',
+          message: `You can have at most ${MAX_FAVORITES} favorite projects`
+        });
+      }
+
+      logger.info('Project added to favorites', { userId: authReq.user.userId, client_name, slug });
+
+      res.status(204).send();
+    } catch (error: any) {
+      logger.error('Error adding favorite project', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/me/favorites/{client_name}/{slug}:
+ *   delete:
+ *     summary: Remove a project from the caller's favorites
+ *     description: Works for projects that were deleted or that the caller can no longer access.
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Project removed from the favorites
+ *       404:
+ *         description: Project is not a favorite
+ */
+router.delete('/me/favorites/:client_name/:slug', verifyJWT, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+  const { client_name, slug } = req.params;
+
+  try {
+    // Favorites are kept by project id, so moved projects still match under their new key
+    const project = await projectRepo.getProjectsByClientAndSlug(client_name, slug);
+
+    const removed = await preferencesRepo.removeFavorite(authReq.user.userId, favorite =>
+      favorite.projectId === project?.id ||
+      (favorite.client_name === client_name && favorite.slug === slug)
+    );
+
+    if (!removed) {
+      return res.status(404).json({ error: 'favorite_not_found', message: 'Project is not a favorite' });
+    }
+
+    logger.info('Project removed from favorites', { userId: authReq.user.userId, client_name, slug });
+
+    res.status(204).send();
+  } catch (error: any) {
+    logger.error('Error removing favorite project', error, { client_name, slug });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/me/recent:
+ *   get:
+ *     summary: List the projects the caller viewed most recently
+ *     description: Every GET /api/projects/{client_name}/{slug} records a view; the last 20 projects are kept.
+ *     tags: [Me]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Recently viewed projects, most recent first, with the caller's role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RecentProject'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me/recent', verifyJWT, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+
+  try {
+    const preferences = await preferencesRepo.getPreferences(authReq.user.userId);
+    const favoriteIds = new Set(preferences.favorites.map(f => f.projectId));
+
+    res.json(await toProjectItems(authReq.user, preferences.recent, favoriteIds));
+  } catch (error: any) {
+    logger.error('Error fetching recent projects', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,457 @@
+import express, { Request, Response } from 'express';
+import { Container, OperationInput } from '@azure/cosmos';
+import { randomUUID } from 'crypto';
+import {
+  requireProjectAccess,
+  verifyJWT,
+  canManageRole,
+  sendRoleNotManageable,
+  getCachedUserProjectAccess,
+  AuthRequest
+} from '../utils/auth/AuthMiddleware';
+import { ProjectAccessRequestRepository } from '../repositories/ProjectAccessRequestRepository';
+import { ProjectMemberRepository } from '../repositories/ProjectMemberRepository';
+import { ProjectRepository } from '../repositories/ProjectRepository';
+import { AccessRequestStatus, ProjectAccessRequest } from '../models/ProjectAccessRequest';
+import { ProjectMember } from '../models/ProjectMember';
+import { isKnownRole } from '../utils/auth/Permissions';
+import { isMembershipActive } from '../utils/auth/Memberships';
+import { invalidateProjectAccessCache, invalidateUserProjectsCache } from '../utils/cache/CacheHelpers';
+import { validateBody } from '../utils/validation/SchemaValidator';
+import { isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+const ACCESS_REQUEST_STATUSES: AccessRequestStatus[] = ['pending', 'approved', 'rejected'];
+
+let accessRequestRepo: ProjectAccessRequestRepository;
+let projectMemberRepo: ProjectMemberRepository;
+let projectRepo: ProjectRepository;
+
+export function initProjectAccessRequestRoutes(container: Container) {
+  accessRequestRepo = new ProjectAccessRequestRepository(container);
+  projectMemberRepo = new ProjectMemberRepository(container);
+  projectRepo = new ProjectRepository(container);
+  return router;
+}
+
+/**
+ * Find an access request of the project in the route; answers 404 if there is none
+ */
+async function getProjectRequest(req: Request, res: Response): Promise<ProjectAccessRequest | undefined> {
+  const { client_name, slug, id } = req.params;
+  const request = await accessRequestRepo.getById(id, client_name, slug);
+
+  if (!request) {
+    res.status(404).json({ error: 'access_request_not_found', message: 'Access request not found' });
+    return undefined;
+  }
+  return request;
+}
+
+function sendNotPending(res: Response, request: Pick<ProjectAccessRequest, 'status'>) {
+  return res.status(409).json({
+    error: 'access_request_not_pending',
+    message: `Access request is ${request.status}`,
+    status: request.status
+  });
+}
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/access-requests:
+ *   post:
+ *     summary: Request access to a project
+ *     description: |
+ *       For signed-in users without access to the project, e.g. after following a link to it.
+ *       The 403 access_denied answer of the project's routes reports in accessRequestPending
+ *       whether the caller already has a pending request.
+ *     tags: [Access Requests]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectAccessRequestCreate'
+ *     responses:
+ *       201:
+ *         description: Access requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectAccessRequest'
+ *       400:
+ *         description: Validation failed or the role is not defined for the client
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: The caller already has access or a pending request
+ */
+router.post('/projects/:client_name/:slug/access-requests',
+  verifyJWT,
+  validateBody('ProjectAccessRequestCreate'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const { role = 'viewer', message } = req.body;
+    const user = authReq.user;
+
+    try {
+      const project = await projectRepo.getProjectsByClientAndSlug(client_name, slug);
+      if (!project || project.deletedAt) {
+        return res.status(404).json({ error: 'project_not_found', message: 'Project not found' });
+      }
+
+      const access = await getCachedUserProjectAccess(user);
+      if (access.some(a => a.projectId === project.id)) {
+        return res.status(409).json({
+          error: 'already_has_access',
+          message: 'You already have access to this project'
+        });
+      }
+
+      if (await accessRequestRepo.getPendingRequest(client_name, slug, user.userId)) {
+        return res.status(409).json({
+          error: 'access_request_exists',
+          message: 'You already have a pending access request for this project'
+        });
+      }
+
+      if (!(await isKnownRole(client_name, role))) {
+        return res.status(400).json({
+          error: 'unknown_role',
+          message: `Role ${role} is not defined for ${client_name}`
+        });
+      }
+
+      const request = await accessRequestRepo.create({
+        id: randomUUID(),
+        client_name,
+        slug,
+        projectId: project.id,
+        userId: user.userId,
+        email: user.email,
+        userName: user.name,
+        role,
+        ...(message !== undefined && { message }),
+        status: 'pending',
+        createdAt: new Date().toISOString()
+      });
+
+      logger.info('Project access requested', { client_name, slug, userId: user.userId, role });
+
+      setETag(res, request);
+      res.status(201).json(request);
+    } catch (error: any) {
+      logger.error('Error requesting project access', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/access-requests:
+ *   get:
+ *     summary: List the access requests of a project
+ *     tags: [Access Requests]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         description: Only return requests with this status
+ *     responses:
+ *       200:
+ *         description: Access requests, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ProjectAccessRequest'
+ *       400:
+ *         description: Invalid status filter
+ *       403:
+ *         description: Insufficient permissions (members:read required)
+ */
+router.get('/projects/:client_name/:slug/access-requests',
+  ...requireProjectAccess('members:read') as any,
+  async (req: Request, res: Response) => {
+    const { client_name, slug } = req.params;
+    const status = req.query.status as AccessRequestStatus | undefined;
+
+    if (status !== undefined && !ACCESS_REQUEST_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: 'invalid_status',
+        message: `status must be one of ${ACCESS_REQUEST_STATUSES.join(', ')}`
+      });
+    }
+
+    try {
+      const requests = (await accessRequestRepo.getProjectRequests(client_name, slug))
+        .filter(request => !status || request.status === status);
+
+      res.json(requests);
+    } catch (error: any) {
+      logger.error('Error fetching project access requests', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/access-requests/{id}/approve:
+ *   post:
+ *     summary: Approve an access request
+ *     description: |
+ *       Adds the requester to the project with the requested role, or with the role given
+ *       here, in the same transactional batch that marks the request approved.
+ *     tags: [Access Requests]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectAccessRequestApproval'
+ *     responses:
+ *       200:
+ *         description: Request approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 request:
+ *                   $ref: '#/components/schemas/ProjectAccessRequest'
+ *                 member:
+ *                   $ref: '#/components/schemas/ProjectMember'
+ *       400:
+ *         description: Validation failed or the role is not defined for the client
+ *       403:
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
+ *       404:
+ *         description: Access request not found
+ *       409:
+ *         description: The request was already approved or rejected
+ */
+router.post('/projects/:client_name/:slug/access-requests/:id/approve',
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectAccessRequestApproval'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug, id } = req.params;
+    const projectId = authReq.projectId!;
+
+    try {
+      const request = await getProjectRequest(req, res);
+      if (!request) {
+        return;
+      }
+      if (request.status !== 'pending') {
+        return sendNotPending(res, request);
+      }
+
+      const role = req.body.role ?? request.role;
+      if (!(await isKnownRole(client_name, role))) {
+        return res.status(400).json({
+          error: 'unknown_role',
+          message: `Role ${role} is not defined for ${client_name}`
+        });
+      }
+      if (!(await canManageRole(authReq, role))) {
+        return sendRoleNotManageable(res, role);
+      }
+
+      // A membership outside its access period is replaced; an active one is kept as it is
+      const existing = await projectMemberRepo.getMember(request.userId, projectId, client_name, slug);
+      let operations: OperationInput[] = [];
+      if (!existing) {
+        operations = projectMemberRepo.createOperations({
+          id: randomUUID(),
+          client_name,
+          slug,
+          projectId,
+          userId: request.userId,
+          email: request.email,
+          userName: request.userName,
+          role
+        });
+      } else if (!isMembershipActive(existing)) {
+        const { validFrom, expiresAt, ...permanent } = existing;
+        operations = projectMemberRepo.replaceOperations(existing, { ...permanent, role } as ProjectMember);
+      }
+
+      const approved = await accessRequestRepo.respond(
+        request,
+        'approved',
+        authReq.user.userId,
+        req.body.message,
+        operations
+      );
+
+      await invalidateProjectAccessCache(request.userId, projectId);
+      await invalidateUserProjectsCache(request.userId);
+
+      logger.info('Project access request approved', {
+        client_name,
+        slug,
+        requestId: id,
+        userId: request.userId,
+        role
+      });
+
+      const member = await projectMemberRepo.getMember(request.userId, projectId, client_name, slug);
+      res.json({ request: approved, member });
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(409).json({
+          error: 'access_request_not_pending',
+          message: 'Access request was decided by another request'
+        });
+      }
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'conflict',
+          message: 'The requester was added to the project by another request. Retry to approve.'
+        });
+      }
+      logger.error('Error approving access request', error, { client_name, slug, requestId: id });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/access-requests/{id}/reject:
+ *   post:
+ *     summary: Reject an access request
+ *     description: The requester can send a new request afterwards.
+ *     tags: [Access Requests]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectAccessRequestRejection'
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectAccessRequest'
+ *       403:
+ *         description: Insufficient permissions (members:manage required)
+ *       404:
+ *         description: Access request not found
+ *       409:
+ *         description: The request was already approved or rejected
+ */
+router.post('/projects/:client_name/:slug/access-requests/:id/reject',
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectAccessRequestRejection'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug, id } = req.params;
+
+    try {
+      const request = await getProjectRequest(req, res);
+      if (!request) {
+        return;
+      }
+      if (request.status !== 'pending') {
+        return sendNotPending(res, request);
+      }
+
+      const rejected = await accessRequestRepo.respond(request, 'rejected', authReq.user.userId, req.body.message);
+
+      logger.info('Project access request rejected', { client_name, slug, requestId: id, userId: request.userId });
+
+      res.json(rejected);
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(409).json({
+          error: 'access_request_not_pending',
+          message: 'Access request was decided by another request'
+        });
+      }
+      logger.error('Error rejecting access request', error, { client_name, slug, requestId: id });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
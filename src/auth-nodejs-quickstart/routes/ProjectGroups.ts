@@ -0,0 +1,275 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import {
+  requireProjectAccess,
+  checkAssignableRole,
+  canManageRole,
+  sendRoleNotManageable,
+  AuthRequest
+} from '../utils/auth/AuthMiddleware';
+import { ProjectGroupGrantRepository, groupGrantId } from '../repositories/ProjectGroupGrantRepository';
+import { invalidateGroupMembersCache, invalidateProjectCache } from '../utils/cache/CacheHelpers';
+import { validateBody } from '../utils/validation/SchemaValidator';
+import { getIfMatch, isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+// Entra object IDs are GUIDs
+const GROUP_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let groupGrantRepo: ProjectGroupGrantRepository;
+
+export function initProjectGroupRoutes(container: Container) {
+  groupGrantRepo = new ProjectGroupGrantRepository(container);
+  return router;
+}
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/groups:
+ *   get:
+ *     summary: List the Entra groups granted access to a project
+ *     tags: [Project Members]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group grants, by group ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ProjectGroupGrant'
+ *       403:
+ *         description: Insufficient permissions (members:read required)
+ */
+router.get('/projects/:client_name/:slug/groups',
+  ...requireProjectAccess('members:read') as any,
+  async (req: Request, res: Response) => {
+    const { client_name, slug } = req.params;
+
+    try {
+      res.json(await groupGrantRepo.getProjectGrants(client_name, slug));
+    } catch (error: any) {
+      logger.error('Error fetching project group grants', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/groups/{groupId}:
+ *   put:
+ *     summary: Grant a role on a project to an Entra group
+ *     description: |
+ *       Every member of the group gets the role, unless they hold a higher one individually or
+ *       through another group. Creates the grant or changes its role.
+ *     tags: [Project Members]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Object ID of the Entra group
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectGroupGrantUpdate'
+ *     responses:
+ *       200:
+ *         description: Grant updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectGroupGrant'
+ *       201:
+ *         description: Grant created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectGroupGrant'
+ *       400:
+ *         description: Validation failed or groupId is not an object ID; or a role not defined for the client
+ *       403:
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
+ *       412:
+ *         description: Grant was modified since the If-Match ETag was read
+ */
+router.put('/projects/:client_name/:slug/groups/:groupId',
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectGroupGrantUpdate'),
+  checkAssignableRole,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const groupId = req.params.groupId.toLowerCase();   // The groups claim uses lower-case GUIDs
+    const projectId = authReq.projectId!;
+    const { role, displayName } = req.body;
+
+    if (!GROUP_ID_PATTERN.test(groupId)) {
+      return res.status(400).json({
+        error: 'invalid_group_id',
+        message: 'groupId must be the object ID of an Entra group'
+      });
+    }
+
+    try {
+      const changes = {
+        role,
+        ...(displayName !== undefined && { displayName }),
+        grantedBy: authReq.user.userId,
+        grantedAt: new Date().toISOString()
+      };
+
+      const existing = await groupGrantRepo.getGrant(projectId, groupId, client_name, slug);
+      if (existing && !(await canManageRole(authReq, existing.role))) {
+        return sendRoleNotManageable(res, existing.role);
+      }
+      const grant = existing
+        ? await groupGrantRepo.update(existing.id, client_name, slug, changes, { ifMatch: getIfMatch(req) })
+        : await groupGrantRepo.create({
+          id: groupGrantId(projectId, groupId),
+          client_name,
+          slug,
+          projectId,
+          groupId,
+          ...changes
+        });
+
+      // Group members are not known here; drop every cached access to the project and the
+      // project lists computed for members of the group
+      await invalidateProjectCache(projectId);
+      await invalidateGroupMembersCache([groupId]);
+
+      logger.info(existing ? 'Project group grant updated' : 'Project group granted', {
+        client_name,
+        slug,
+        groupId,
+        role
+      });
+
+      setETag(res, grant);
+      res.status(existing ? 200 : 201).json(grant);
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Group grant was modified by another request. Fetch the latest version and retry.'
+        });
+      }
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'conflict',
+          message: 'Group was granted access by another request. Retry to update it.'
+        });
+      }
+      logger.error('Error granting project access to group', error, { client_name, slug, groupId });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/groups/{groupId}:
+ *   delete:
+ *     summary: Revoke a group's access to a project
+ *     description: Members of the group keep any role they hold individually or through other groups.
+ *     tags: [Project Members]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Grant removed
+ *       403:
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
+ *       404:
+ *         description: The group has no grant on this project
+ */
+router.delete('/projects/:client_name/:slug/groups/:groupId',
+  ...requireProjectAccess('members:manage') as any,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const groupId = req.params.groupId.toLowerCase();
+    const projectId = authReq.projectId!;
+
+    try {
+      const existing = await groupGrantRepo.getGrant(projectId, groupId, client_name, slug);
+      if (existing && !(await canManageRole(authReq, existing.role))) {
+        return sendRoleNotManageable(res, existing.role);
+      }
+
+      await groupGrantRepo.delete(groupGrantId(projectId, groupId), client_name, slug);
+
+      await invalidateProjectCache(projectId);
+      await invalidateGroupMembersCache([groupId]);
+
+      logger.info('Project group grant removed', { client_name, slug, groupId });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === 404) {
+        return res.status(404).json({
+          error: 'group_grant_not_found',
+          message: 'The group has no access to this project'
+        });
+      }
+      logger.error('Error removing project group grant', error, { client_name, slug, groupId });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,310 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import { requireProjectAccess, AuthRequest } from '../utils/auth/AuthMiddleware';
+import { ProjectRepository } from '../repositories/ProjectRepository';
+import { ProjectRevisionRepository } from '../repositories/ProjectRevisionRepository';
+import { ProjectRevision } from '../models/ProjectRevision';
+import { getIfMatch, isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { getQueryFingerprint, encodeContinuationToken, decodeContinuationToken } from '../utils/pagination/ContinuationToken';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+let projectRepo: ProjectRepository;
+let revisionRepo: ProjectRevisionRepository;
+
+export function initProjectHistoryRoutes(container: Container) {
+  projectRepo = new ProjectRepository(container);
+  revisionRepo = new ProjectRevisionRepository(container);
+  return router;
+}
+
+/**
+ * Revision without its change values, for the history list
+ */
+function toSummary(revision: ProjectRevision) {
+  return {
+    revision: revision.revision,
+    action: revision.action,
+    ...(revision.revertedTo !== undefined && { revertedTo: revision.revertedTo }),
+    changedFields: revision.changes.map(c => c.path),
+    editor: {
+      userId: revision.editor.userId,
+      email: revision.editor.email,
+      name: revision.editor.name
+    },
+    createdAt: revision.createdAt
+  };
+}
+
+function parseRevision(value: string): number | undefined {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : undefined;
+}
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/history:
+ *   get:
+ *     summary: List a project's revisions, newest first
+ *     tags: [Project History]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 25
+ *       - in: query
+ *         name: continuationToken
+ *         schema:
+ *           type: string
+ *         description: Opaque token from a previous response
+ *     responses:
+ *       200:
+ *         description: A page of revisions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectRevisionPage'
+ *       400:
+ *         description: Invalid limit or continuation token
+ *       403:
+ *         description: Insufficient permissions (history:read required)
+ */
+router.get('/projects/:client_name/:slug/history',
+  ...requireProjectAccess('history:read') as any,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+
+    try {
+      const projectId = authReq.projectId!;
+      const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return res.status(400).json({
+          error: 'invalid_query',
+          message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+        });
+      }
+
+      const fingerprint = getQueryFingerprint({ projectId });
+      let cosmosToken: string | undefined;
+      if (typeof req.query.continuationToken === 'string') {
+        try {
+          cosmosToken = decodeContinuationToken(req.query.continuationToken, fingerprint);
+        } catch (error: any) {
+          return res.status(400).json({ error: 'invalid_continuation_token', message: error.message });
+        }
+      }
+
+      logger.info('Fetching project history', { client_name, slug, projectId, limit });
+
+      const page = await revisionRepo.getRevisionsPage(projectId, client_name, slug, {
+        maxItemCount: limit,
+        continuationToken: cosmosToken
+      });
+
+      res.json({
+        items: page.resources.map(toSummary),
+        continuationToken: page.continuationToken
+          ? encodeContinuationToken(page.continuationToken, fingerprint)
+          : null
+      });
+    } catch (error: any) {
+      if (error.code === 400 && req.query.continuationToken) {
+        return res.status(400).json({
+          error: 'invalid_continuation_token',
+          message: 'Continuation token is no longer valid. Restart from the first page.'
+        });
+      }
+      logger.error('Failed to fetch project history', error, { client_name, slug });
+      res.status(500).json({ error: 'Failed to fetch project history' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/history/{rev}/diff:
+ *   get:
+ *     summary: Get the fields changed by one revision, with their old and new values
+ *     tags: [Project History]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: rev
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Revision with its changes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectRevisionDiff'
+ *       403:
+ *         description: Insufficient permissions (history:read required)
+ *       404:
+ *         description: Revision not found
+ */
+router.get('/projects/:client_name/:slug/history/:rev/diff',
+  ...requireProjectAccess('history:read') as any,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+
+    try {
+      const revisionNumber = parseRevision(req.params.rev);
+      const revision = revisionNumber
+        ? await revisionRepo.getRevision(authReq.projectId!, client_name, slug, revisionNumber)
+        : undefined;
+
+      if (!revision) {
+        return res.status(404).json({ error: 'revision_not_found', message: 'Revision not found' });
+      }
+
+      res.json({ ...toSummary(revision), changes: revision.changes });
+    } catch (error) {
+      logger.error('Failed to fetch project revision', error as Error, { client_name, slug });
+      res.status(500).json({ error: 'Failed to fetch project revision' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/history/{rev}/revert:
+ *   post:
+ *     summary: Revert a project to how it was right after a revision
+ *     description: |
+ *       Undoes the changes of every later revision. The revert is itself recorded as a new
+ *       revision, so it can be reverted as well. Honours If-Match.
+ *     tags: [Project History]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: rev
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Project reverted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: The revision is the current one
+ *       403:
+ *         description: Insufficient permissions (history:revert required)
+ *       404:
+ *         description: Revision not found
+ *       412:
+ *         description: Project was modified since the If-Match ETag was read
+ */
+router.post('/projects/:client_name/:slug/history/:rev/revert',
+  ...requireProjectAccess('history:revert') as any,
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+
+    try {
+      const projectId = authReq.projectId!;
+      const revisionNumber = parseRevision(req.params.rev);
+      const revision = revisionNumber
+        ? await revisionRepo.getRevision(projectId, client_name, slug, revisionNumber)
+        : undefined;
+      const project = await projectRepo.getById(projectId, client_name, slug);
+
+      if (!revision || !project) {
+        return res.status(404).json({ error: 'revision_not_found', message: 'Revision not found' });
+      }
+
+      if (revision.revision >= (project.revision ?? 0)) {
+        return res.status(400).json({
+          error: 'nothing_to_revert',
+          message: `Revision ${revision.revision} is the current revision`
+        });
+      }
+
+      const laterRevisions = await revisionRepo.getRevisionsAfter(projectId, client_name, slug, revision.revision);
+
+      logger.info('Reverting project', {
+        client_name,
+        slug,
+        projectId,
+        from: project.revision,
+        to: revision.revision
+      });
+
+      const reverted = await projectRepo.revertToRevision(project, revision.revision, laterRevisions, {
+        ifMatch: getIfMatch(req),
+        editor: authReq.user
+      });
+
+      logger.info('Project reverted', { client_name, slug, projectId, revision: reverted.revision });
+
+      setETag(res, reverted);
+      res.json(reverted);
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Project was modified by another request. Fetch the latest version and retry.'
+        });
+      }
+      logger.error('Failed to revert project', error, { client_name, slug });
+      res.status(500).json({ error: 'Failed to revert project' });
+    }
+  }
+);
@@ -0,0 +1,460 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import { randomUUID } from 'crypto';
+import { requireProjectAccess, checkAssignableRole, verifyJWT, AuthRequest } from '../utils/auth/AuthMiddleware';
+import { ProjectInvitationRepository } from '../repositories/ProjectInvitationRepository';
+import { ProjectMemberRepository } from '../repositories/ProjectMemberRepository';
+import { ProjectRepository } from '../repositories/ProjectRepository';
+import { InvitationStatus, ProjectInvitation } from '../models/ProjectInvitation';
+import {
+  INVITATION_TTL_DAYS,
+  acceptInvitation,
+  getInvitationStatus,
+  toInvitationResponse
+} from '../utils/auth/Invitations';
+import { validateBody } from '../utils/validation/SchemaValidator';
+import { isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'declined', 'revoked', 'expired'];
+
+let invitationRepo: ProjectInvitationRepository;
+let projectMemberRepo: ProjectMemberRepository;
+let projectRepo: ProjectRepository;
+
+export function initProjectInvitationRoutes(container: Container) {
+  invitationRepo = new ProjectInvitationRepository(container);
+  projectMemberRepo = new ProjectMemberRepository(container);
+  projectRepo = new ProjectRepository(container);
+  return router;
+}
+
+/**
+ * Find an invitation addressed to the caller. Invitations for other addresses are
+ * reported as not found, so ids cannot be probed.
+ */
+async function getCallerInvitation(req: Request, res: Response): Promise<ProjectInvitation | undefined> {
+  const authReq = req as AuthRequest;
+  const invitation = await invitationRepo.getInvitation(req.params.id);
+
+  if (!invitation || !authReq.user.email || invitation.email !== authReq.user.email.toLowerCase()) {
+    res.status(404).json({ error: 'invitation_not_found', message: 'Invitation not found' });
+    return undefined;
+  }
+  return invitation;
+}
+
+function sendNotPending(res: Response, invitation: ProjectInvitation) {
+  const status = getInvitationStatus(invitation);
+  return res.status(409).json({
+    error: 'invitation_not_pending',
+    message: `Invitation is ${status}`,
+    status
+  });
+}
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/invitations:
+ *   get:
+ *     summary: List the invitations of a project
+ *     tags: [Invitations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, accepted, declined, revoked, expired]
+ *         description: Only return invitations with this status
+ *     responses:
+ *       200:
+ *         description: Invitations, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ProjectInvitation'
+ *       400:
+ *         description: Invalid status filter
+ *       403:
+ *         description: Insufficient permissions (members:read required)
+ */
+router.get('/projects/:client_name/:slug/invitations',
+  ...requireProjectAccess('members:read') as any,
+  async (req: Request, res: Response) => {
+    const { client_name, slug } = req.params;
+    const status = req.query.status as InvitationStatus | undefined;
+
+    if (status !== undefined && !INVITATION_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: 'invalid_status',
+        message: `status must be one of ${INVITATION_STATUSES.join(', ')}`
+      });
+    }
+
+    try {
+      const invitations = (await invitationRepo.getProjectInvitations(client_name, slug))
+        .map(toInvitationResponse)
+        .filter(invitation => !status || invitation.status === status);
+
+      res.json(invitations);
+    } catch (error: any) {
+      logger.error('Error fetching project invitations', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/invitations:
+ *   post:
+ *     summary: Invite someone to a project by email
+ *     description: |
+ *       The invitation is accepted automatically when the invited person signs in for the first
+ *       time with a token for this email address, or explicitly with
+ *       POST /api/invitations/{id}/accept. It expires after INVITATION_TTL_DAYS days.
+ *     tags: [Invitations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectInvitationCreate'
+ *     responses:
+ *       201:
+ *         description: Invitation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectInvitation'
+ *       400:
+ *         description: Validation failed; or a role not defined for the client
+ *       403:
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
+ *       409:
+ *         description: The address already has a pending invitation or belongs to a member
+ */
+router.post('/projects/:client_name/:slug/invitations',
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectInvitationCreate'),
+  checkAssignableRole,
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const projectId = authReq.projectId!;
+    const email = (req.body.email as string).toLowerCase();
+    const { role } = req.body;
+
+    try {
+      const members = await projectMemberRepo.getProjectMembers(client_name, slug);
+      if (members.some(m => m.email.toLowerCase() === email)) {
+        return res.status(409).json({
+          error: 'already_member',
+          message: `${email} is already a member of this project`
+        });
+      }
+
+      if (await invitationRepo.getPendingInvitation(client_name, slug, email)) {
+        return res.status(409).json({
+          error: 'invitation_exists',
+          message: `${email} already has a pending invitation to this project`
+        });
+      }
+
+      const now = new Date();
+      const invitation = await invitationRepo.create({
+        id: randomUUID(),
+        client_name,
+        slug,
+        projectId,
+        email,
+        role,
+        status: 'pending',
+        invitedBy: authReq.user.userId,
+        invitedByName: authReq.user.name,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * SECONDS_PER_DAY * 1000).toISOString()
+      });
+
+      logger.info('Project invitation created', { client_name, slug, invitationId: invitation.id, role });
+
+      setETag(res, invitation);
+      res.status(201).json(toInvitationResponse(invitation));
+    } catch (error: any) {
+      logger.error('Error creating project invitation', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/invitations/{id}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Invitation revoked
+ *       403:
+ *         description: Insufficient permissions (members:manage required)
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation is no longer pending
+ */
+router.delete('/projects/:client_name/:slug/invitations/:id',
+  ...requireProjectAccess('members:manage') as any,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug, id } = req.params;
+
+    try {
+      const invitation = await invitationRepo.getById(id, client_name, slug);
+      if (!invitation) {
+        return res.status(404).json({ error: 'invitation_not_found', message: 'Invitation not found' });
+      }
+      if (getInvitationStatus(invitation) !== 'pending') {
+        return sendNotPending(res, invitation);
+      }
+
+      await invitationRepo.respond(invitation, 'revoked', authReq.user.userId);
+
+      logger.info('Project invitation revoked', { client_name, slug, invitationId: id });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(409).json({
+          error: 'invitation_not_pending',
+          message: 'Invitation was answered while it was being revoked'
+        });
+      }
+      logger.error('Error revoking project invitation', error, { client_name, slug, invitationId: id });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   get:
+ *     summary: List the caller's pending invitations
+ *     description: Invitations are matched to the email address in the caller's token.
+ *     tags: [Invitations]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending invitations, newest first, with the name of the project
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ProjectInvitation'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/invitations', verifyJWT, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+
+  try {
+    if (!authReq.user.email) {
+      return res.json([]);
+    }
+
+    const invitations = await invitationRepo.getPendingInvitationsForEmail(authReq.user.email);
+    const projects = invitations.length > 0
+      ? new Map((await projectRepo.getProjectsByIds(invitations.map(i => i.projectId))).map(p => [p.id, p]))
+      : new Map();
+
+    res.json(invitations
+      .filter(invitation => projects.has(invitation.projectId))
+      .map(invitation => ({
+        ...toInvitationResponse(invitation),
+        projectName: projects.get(invitation.projectId)!.name
+      })));
+  } catch (error: any) {
+    logger.error('Error fetching invitations', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/invitations/{id}/accept:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: |
+ *       Adds the caller to the project with the invited role. If the caller already is a
+ *       member, their role is kept and the invitation is only marked accepted.
+ *     tags: [Invitations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitation:
+ *                   $ref: '#/components/schemas/ProjectInvitation'
+ *                 member:
+ *                   $ref: '#/components/schemas/ProjectMember'
+ *       404:
+ *         description: No invitation with this id for the caller's email
+ *       409:
+ *         description: Invitation was already answered, revoked or has expired
+ */
+router.post('/invitations/:id/accept', verifyJWT, idempotent, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+
+  try {
+    const invitation = await getCallerInvitation(req, res);
+    if (!invitation) {
+      return;
+    }
+    if (getInvitationStatus(invitation) !== 'pending') {
+      return sendNotPending(res, invitation);
+    }
+
+    const result = await acceptInvitation(invitation, authReq.user);
+
+    res.json({ invitation: toInvitationResponse(result.invitation), member: result.member });
+  } catch (error: any) {
+    if (isPreconditionFailed(error)) {
+      return res.status(409).json({
+        error: 'invitation_not_pending',
+        message: 'Invitation was answered by another request'
+      });
+    }
+    logger.error('Error accepting invitation', error, { invitationId: req.params.id });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/invitations/{id}/decline:
+ *   post:
+ *     summary: Decline an invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectInvitation'
+ *       404:
+ *         description: No invitation with this id for the caller's email
+ *       409:
+ *         description: Invitation was already answered, revoked or has expired
+ */
+router.post('/invitations/:id/decline', verifyJWT, idempotent, async (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+
+  try {
+    const invitation = await getCallerInvitation(req, res);
+    if (!invitation) {
+      return;
+    }
+    if (getInvitationStatus(invitation) !== 'pending') {
+      return sendNotPending(res, invitation);
+    }
+
+    const declined = await invitationRepo.respond(invitation, 'declined', authReq.user.userId);
+
+    logger.info('Invitation declined', {
+      invitationId: invitation.id,
+      client_name: invitation.client_name,
+      slug: invitation.slug
+    });
+
+    res.json(toInvitationResponse(declined));
+  } catch (error: any) {
+    if (isPreconditionFailed(error)) {
+      return res.status(409).json({
+        error: 'invitation_not_pending',
+        message: 'Invitation was answered by another request'
+      });
+    }
+    logger.error('Error declining invitation', error, { invitationId: req.params.id });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
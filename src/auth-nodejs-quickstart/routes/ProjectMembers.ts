@@ -1,21 +1,163 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { Container } from '@azure/cosmos';
-import { requireProjectAccess, AuthRequest } from '../utils/auth/AuthMiddleware';
-import { ProjectMemberRepository } from '../repositories/ProjectMemberRepository';
-import { invalidateProjectAccessCache, invalidateUserProjectsCache } from '../utils/cache/CacheHelpers';
+import {
+  verifyJWT,
+  checkProjectAccess,
+  requireProjectAccess,
+  checkAssignableRole,
+  canManageRole,
+  sendRoleNotManageable,
+  AuthRequest
+} from '../utils/auth/AuthMiddleware';
+import { ProjectMemberRepository, applyMemberChanges } from '../repositories/ProjectMemberRepository';
+import { ProjectRepository } from '../repositories/ProjectRepository';
+import { invalidateMembersCache, invalidateProjectAccessCache, invalidateUserProjectsCache } from '../utils/cache/CacheHelpers';
+import { FieldError, sendValidationErrors, validateBody } from '../utils/validation/SchemaValidator';
+import { isKnownRole } from '../utils/auth/Permissions';
+import { getAccessPeriodErrors, isMembershipActive, toMemberResponse } from '../utils/auth/Memberships';
+import { getIfMatch, isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { Project } from '../models/Project';
+import { ProjectMember, ProjectRole } from '../models/ProjectMember';
+import { randomUUID } from 'crypto';
 import { logger as rootLogger } from '../utils/telemetry/logger';
 
 const logger = rootLogger;
 
 const router = express.Router();
 
+const MAX_BATCH_OPERATIONS = 50;
+
+interface MemberBatchOperation {
+  op: 'add' | 'update' | 'remove';
+  userId: string;
+  email?: string;
+  userName?: string;
+  role?: ProjectRole;
+  validFrom?: string | null;
+  expiresAt?: string | null;
+}
+
+interface MemberBatchResult {
+  index: number;
+  op: MemberBatchOperation['op'];
+  userId: string;
+  status: 'added' | 'updated' | 'removed' | 'invalid' | 'not_found' | 'conflict' | 'forbidden' | 'failed';
+  message?: string;
+  details?: FieldError[];
+  member?: ReturnType<typeof toMemberResponse>;
+}
+
+// Member document before and after an operation (before: not set for adds, after: not set for removes)
+interface MemberWrite {
+  index: number;
+  op: MemberBatchOperation['op'];
+  userId: string;
+  before?: ProjectMember;
+  after?: ProjectMember;
+}
+
+type MemberBatchFailure = Pick<MemberBatchResult, 'status' | 'message' | 'details'>;
+
 let projectMemberRepo: ProjectMemberRepository;
+let projectRepo: ProjectRepository;
 
 export function initProjectMemberRoutes(container: Container) {
   projectMemberRepo = new ProjectMemberRepository(container);
+  projectRepo = new ProjectRepository(container);
   return router;
 }
 
+function sendMemberNotFound(res: Response) {
+  return res.status(404).json({ error: 'member_not_found', message: 'Member not found' });
+}
+
+// Store access period times in one ISO 8601 form, so they compare as strings in queries
+function normalizeTime(value: string | undefined): string | undefined {
+  return value === undefined ? undefined : new Date(value).toISOString();
+}
+
+/**
+ * Check one operation of a member batch the way the single-member routes do and work out the
+ * member document it writes
+ */
+async function planMemberOperation(
+  authReq: AuthRequest,
+  operation: MemberBatchOperation,
+  existing: ProjectMember | undefined
+): Promise<{ failure: MemberBatchFailure } | { before?: ProjectMember; after?: ProjectMember }> {
+  const { op, userId, email, userName, role } = operation;
+
+  if (op === 'add' && existing) {
+    return { failure: { status: 'conflict', message: 'User is already a member of this project' } };
+  }
+  if (op !== 'add' && !existing) {
+    return { failure: { status: 'not_found', message: 'Member not found' } };
+  }
+  if (existing && !(await canManageRole(authReq, existing.role))) {
+    return { failure: { status: 'forbidden', message: `Role ${existing.role} has permissions you do not hold` } };
+  }
+  if (op === 'remove') {
+    return { before: existing };
+  }
+
+  const details: FieldError[] = [];
+  if (op === 'add') {
+    if (!email) details.push({ field: 'email', message: 'is required' });
+    if (!role) details.push({ field: 'role', message: 'is required' });
+  } else {
+    if (email !== undefined) details.push({ field: 'email', message: 'can only be set when adding' });
+    if (userName !== undefined) details.push({ field: 'userName', message: 'can only be set when adding' });
+  }
+  if (details.length > 0) {
+    return { failure: { status: 'invalid', details } };
+  }
+
+  if (role !== undefined) {
+    if (!(await isKnownRole(authReq.clientName!, role))) {
+      return { failure: { status: 'invalid', message: `Role ${role} is not defined for ${authReq.clientName}` } };
+    }
+    if (!(await canManageRole(authReq, role))) {
+      return { failure: { status: 'forbidden', message: `Role ${role} has permissions you do not hold` } };
+    }
+  }
+
+  const validFrom = operation.validFrom === null ? null : normalizeTime(operation.validFrom);
+  const expiresAt = operation.expiresAt === null ? null : normalizeTime(operation.expiresAt);
+
+  const after: ProjectMember = existing
+    ? applyMemberChanges(existing, { role, validFrom, expiresAt })
+    : {
+      id: randomUUID(),
+      docType: 'projectMember',
+      client_name: authReq.params.client_name,
+      slug: authReq.params.slug,
+      projectId: authReq.projectId!,
+      userId,
+      email: email!,
+      userName: userName || email!.split('@')[0],
+      role: role!,
+      ...(validFrom && { validFrom }),
+      ...(expiresAt && { expiresAt })
+    };
+
+  const periodErrors = getAccessPeriodErrors(after.role, after.validFrom, after.expiresAt, {
+    expiresAt: expiresAt !== undefined
+  });
+  if (periodErrors.length > 0) {
+    return { failure: { status: 'invalid', details: periodErrors } };
+  }
+
+  return { before: existing, after };
+}
+
+function sendLastOwner(res: Response, action: 'demote' | 'remove') {
+  return res.status(409).json({
+    error: 'last_owner',
+    message: `Cannot ${action} the last owner of the project. Make another member owner first.`
+  });
+}
+
 /**
  * @swagger
  * /api/projects/{client_name}/{slug}/members:
@@ -37,7 +179,7 @@ export function initProjectMemberRoutes(container: Container) {
  *           type: string
  *     responses:
  *       200:
- *         description: List of project members
+ *         description: List of project members, with the time left on time-limited memberships
  *         content:
  *           application/json:
  *             schema:
@@ -45,10 +187,10 @@ export function initProjectMemberRoutes(container: Container) {
  *               items:
  *                 $ref: '#/components/schemas/ProjectMember'
  *       403:
- *         description: Insufficient permissions (owner role required)
+ *         description: Insufficient permissions (members:read required)
  */
 router.get('/projects/:client_name/:slug/members',
-  ...requireProjectAccess('owner') as any,
+  ...requireProjectAccess('members:read') as any,
   async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     const { client_name, slug } = req.params;
@@ -67,7 +209,7 @@ router.get('/projects/:client_name/:slug/members',
         count: members.length 
       });
 
-      res.json(members);
+      res.json(members.map(toMemberResponse));
     } catch (error) {
       logger.error('Failed to fetch project members', error as Error, {
         client_name,
@@ -87,6 +229,7 @@ router.get('/projects/:client_name/:slug/members',
  *     security:
  *       - BearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: path
  *         name: client_name
  *         required: true
@@ -102,34 +245,22 @@ router.get('/projects/:client_name/:slug/members',
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - userId
- *               - email
- *               - role
- *             properties:
- *               userId:
- *                 type: string
- *               email:
- *                 type: string
- *                 format: email
- *               userName:
- *                 type: string
- *               role:
- *                 type: string
- *                 enum: [viewer, editor, owner]
+ *             $ref: '#/components/schemas/ProjectMemberCreate'
  *     responses:
  *       201:
  *         description: Member added successfully
  *       400:
- *         description: Missing required fields
+ *         description: Validation failed - missing, mistyped or unknown fields, or an invalid access period; or a role not defined for the client
  *       403:
- *         description: Insufficient permissions
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
  *       409:
  *         description: Member already exists
  */
 router.post('/projects/:client_name/:slug/members',
-  ...requireProjectAccess('owner') as any,
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectMemberCreate'),
+  checkAssignableRole,
+  idempotent,
   async (req: Request, res: Response) => {
     try {
       const authReq = req as AuthRequest;
@@ -138,16 +269,12 @@ router.post('/projects/:client_name/:slug/members',
       // Project ID is resolved by middleware
       const projectId = authReq.projectId!;
       const { userId, email, userName, role } = req.body;
+      const validFrom = normalizeTime(req.body.validFrom);
+      const expiresAt = normalizeTime(req.body.expiresAt);
 
-      if (!userId || !email || !role) {
-        return res.status(400).json({ 
-          error: 'Missing required fields',
-          required: ['userId', 'email', 'role']
-        });
-      }
-
-      if (!['owner', 'editor', 'viewer'].includes(role)) {
-        return res.status(400).json({ error: 'Invalid role' });
+      const periodErrors = getAccessPeriodErrors(role, validFrom, expiresAt, { expiresAt: true });
+      if (periodErrors.length > 0) {
+        return sendValidationErrors(res, periodErrors);
       }
 
       // Add member
@@ -158,14 +285,15 @@ router.post('/projects/:client_name/:slug/members',
         userName || email.split('@')[0],
         role,
         client_name,
-        slug
+        slug,
+        { validFrom, expiresAt }
       );
 
       // Invalidate cache
       await invalidateProjectAccessCache(userId, projectId);
       await invalidateUserProjectsCache(userId);
 
-      res.status(201).json(member);
+      res.status(201).json(toMemberResponse(member));
     } catch (error: any) {
       (req as any).logger.error('Error adding project member', error);
       res.status(500).json({ error: error.message || 'Failed to add project member' });
@@ -173,11 +301,191 @@ router.post('/projects/:client_name/:slug/members',
   }
 );
 
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/members:batch:
+ *   post:
+ *     summary: Add, update and remove several members at once
+ *     description: |
+ *       Every operation is checked like the single-member routes and reported on its own.
+ *       The valid operations are then written together in one transactional batch, so
+ *       either all of them apply or, if a member changed concurrently, none do (status
+ *       conflict; retry). At most 50 operations per request, one per user.
+ *     tags: [Project Members]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectMemberBatch'
+ *     responses:
+ *       200:
+ *         description: Result of every operation, in request order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectMemberBatchReport'
+ *       400:
+ *         description: Validation failed or too many operations
+ *       403:
+ *         description: Insufficient permissions (members:manage required)
+ */
+router.post('/projects/:client_name/:slug/members\\:batch',
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectMemberBatch'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const projectId = authReq.projectId!;
+    const operations: MemberBatchOperation[] = req.body.operations;
+
+    if (operations.length > MAX_BATCH_OPERATIONS) {
+      return res.status(400).json({
+        error: 'too_many_operations',
+        message: `Send at most ${MAX_BATCH_OPERATIONS} operations per request`
+      });
+    }
+
+    try {
+      const members = new Map(
+        (await projectMemberRepo.getProjectMembers(client_name, slug)).map(m => [m.userId, m])
+      );
+
+      const results: MemberBatchResult[] = [];
+      let writes: MemberWrite[] = [];
+      const seen = new Set<string>();
+
+      for (const [index, operation] of operations.entries()) {
+        const { op, userId } = operation;
+
+        if (seen.has(userId)) {
+          results.push({ index, op, userId, status: 'invalid', message: 'Only one operation per user' });
+          continue;
+        }
+        seen.add(userId);
+
+        const planned = await planMemberOperation(authReq, operation, members.get(userId));
+        if ('failure' in planned) {
+          results.push({ index, op, userId, ...planned.failure });
+        } else {
+          writes.push({ index, op, userId, ...planned });
+        }
+      }
+
+      // The project must keep an active owner once every write has applied; owners whose
+      // validFrom lies ahead do not count
+      const isActiveOwner = (m?: ProjectMember) => m?.role === 'owner' && isMembershipActive(m);
+      const owners = new Set([...members.values()].filter(isActiveOwner).map(m => m.userId));
+      for (const write of writes) {
+        if (isActiveOwner(write.before)) owners.delete(write.userId);
+        if (isActiveOwner(write.after)) owners.add(write.userId);
+      }
+      const losesOwner = (write: MemberWrite) => isActiveOwner(write.before) && !isActiveOwner(write.after);
+      if (owners.size === 0) {
+        for (const write of writes.filter(losesOwner)) {
+          results.push({
+            index: write.index,
+            op: write.op,
+            userId: write.userId,
+            status: 'conflict',
+            message: 'The project must keep at least one owner'
+          });
+        }
+        writes = writes.filter(write => !losesOwner(write));
+      }
+
+      if (writes.length > 0) {
+        const batch = projectMemberRepo.batch(client_name, slug);
+        for (const { before, after } of writes) {
+          if (!before) {
+            batch.add(...projectMemberRepo.createOperations(after!));
+          } else if (!after) {
+            batch.add(projectMemberRepo.deleteOperation(before.id, { ifMatch: before._etag }));
+          } else {
+            batch.add(...projectMemberRepo.replaceOperations(before, after));
+          }
+        }
+
+        // As in ownerGuardOperations: pin an owner this batch does not write, so owners
+        // demoted concurrently by another request cannot leave the project without one
+        if (writes.some(losesOwner) && !writes.some(write => isActiveOwner(write.after))) {
+          const guard = members.get([...owners][0])!;
+          batch.add(...projectMemberRepo.replaceOperations(guard, guard));
+        }
+
+        try {
+          await batch.execute();
+          for (const { index, op, userId, after } of writes) {
+            results.push({
+              index,
+              op,
+              userId,
+              status: op === 'add' ? 'added' : op === 'update' ? 'updated' : 'removed',
+              ...(after && { member: toMemberResponse(after) })
+            });
+          }
+
+          await invalidateMembersCache(projectId, writes.map(write => write.userId));
+        } catch (batchError: any) {
+          // 404 / 409 / 412: a member was added, changed or removed concurrently
+          const concurrent = [404, 409, 412].includes(batchError.code);
+          if (!concurrent) {
+            logger.error('Error applying member batch', batchError, { client_name, slug });
+          }
+          for (const { index, op, userId } of writes) {
+            results.push({
+              index,
+              op,
+              userId,
+              status: concurrent ? 'conflict' : 'failed',
+              message: concurrent
+                ? 'Members changed while the batch was applied. Retry the request.'
+                : batchError.message
+            });
+          }
+        }
+      }
+
+      results.sort((a, b) => a.index - b.index);
+
+      const summary: Record<string, number> = {};
+      for (const result of results) {
+        summary[result.status] = (summary[result.status] || 0) + 1;
+      }
+
+      logger.info('Member batch applied', { client_name, slug, summary });
+
+      res.json({ summary, results });
+    } catch (error: any) {
+      logger.error('Error processing member batch', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/projects/{client_name}/{slug}/members/{userId}:
  *   patch:
- *     summary: Update a member's role
+ *     summary: Update a member's role or access period
+ *     description: |
+ *       Set validFrom / expiresAt to limit the membership in time, or to null to remove the
+ *       limit. Owners cannot be time-limited.
  *     tags: [Project Members]
  *     security:
  *       - BearerAuth: []
@@ -198,66 +506,183 @@ router.post('/projects/:client_name/:slug/members',
  *         schema:
  *           type: string
  *         description: The Entra ID object ID (oid) of the user
+ *       - in: header
+ *         name: If-Match
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: _etag of the member document; the update is rejected if it has changed since
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - role
- *             properties:
- *               role:
- *                 type: string
- *                 enum: [viewer, editor, owner]
- *                 description: The new role to assign to the member
+ *             $ref: '#/components/schemas/ProjectMemberRoleUpdate'
  *     responses:
  *       200:
- *         description: Member role updated successfully
+ *         description: Member updated successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ProjectMember'
  *       400:
- *         description: Invalid role
+ *         description: Validation failed - invalid role or access period; or a role not defined for the client
  *       403:
- *         description: Insufficient permissions (owner role required)
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
  *       404:
  *         description: Member not found
+ *       409:
+ *         description: The member is the last owner of the project and cannot be demoted
+ *       412:
+ *         description: Member (or the project's owners) changed since the If-Match ETag was read
  */
 router.patch('/projects/:client_name/:slug/members/:userId',
-  ...requireProjectAccess('owner') as any,
+  ...requireProjectAccess('members:manage') as any,
+  validateBody('ProjectMemberRoleUpdate'),
+  checkAssignableRole,
   async (req: Request, res: Response) => {
     try {
       const authReq = req as AuthRequest;
       const projectId = authReq.projectId!;
       const { client_name, slug, userId } = req.params;      
       const { role } = req.body;
+      const validFrom = req.body.validFrom === null ? null : normalizeTime(req.body.validFrom);
+      const expiresAt = req.body.expiresAt === null ? null : normalizeTime(req.body.expiresAt);
 
-      if (!role || !['owner', 'editor', 'viewer'].includes(role)) {
-        return res.status(400).json({ error: 'Invalid role' });
+      const existing = await projectMemberRepo.getMember(userId, projectId, client_name, slug);
+      if (!existing) {
+        return sendMemberNotFound(res);
+      }
+      if (!(await canManageRole(authReq, existing.role))) {
+        return sendRoleNotManageable(res, existing.role);
       }
 
-      const updatedMember = await projectMemberRepo.updateMemberRole(
+      const periodErrors = getAccessPeriodErrors(
+        role ?? existing.role,
+        validFrom === undefined ? existing.validFrom : validFrom ?? undefined,
+        expiresAt === undefined ? existing.expiresAt : expiresAt ?? undefined,
+        { expiresAt: expiresAt !== undefined }
+      );
+      if (periodErrors.length > 0) {
+        return sendValidationErrors(res, periodErrors);
+      }
+
+      const updatedMember = await projectMemberRepo.updateMember(
         userId,
         projectId,
         client_name,
         slug,
-        role
+        { role, validFrom, expiresAt },
+        { ifMatch: getIfMatch(req) }
       );
 
       // Invalidate cache
       await invalidateProjectAccessCache(userId, projectId);
       await invalidateUserProjectsCache(userId);
 
-      res.json(updatedMember);
+      setETag(res, updatedMember);
+      res.json(toMemberResponse(updatedMember));
     } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Member was modified by another request. Fetch the latest version and retry.'
+        });
+      }
+      if (error.code === 404) {
+        return sendMemberNotFound(res);
+      }
+      if (error.code === 409) {
+        return sendLastOwner(res, 'demote');
+      }
       (req as any).logger.error('Error updating member role', error);
       res.status(500).json({ error: error.message || 'Failed to update member role' });
     }
   }
 );
 
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/members/me:
+ *   delete:
+ *     summary: Leave a project
+ *     description: |
+ *       Removes the caller's own membership; no permission is needed beyond membership, and
+ *       read-only (archived) projects can be left too. Owners can leave as long as another
+ *       owner remains. Access through a group grant cannot be left this way.
+ *     tags: [Project Members]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The caller left the project
+ *       403:
+ *         description: No access to the project
+ *       404:
+ *         description: The caller is not a member of the project (access through a group only)
+ *       409:
+ *         description: The caller is the last owner of the project
+ *       412:
+ *         description: The project's owners changed concurrently; retry
+ */
+router.delete('/projects/:client_name/:slug/members/me',
+  verifyJWT,
+  checkProjectAccess,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const projectId = authReq.projectId!;
+    const userId = authReq.user.userId;
+
+    try {
+      await projectMemberRepo.removeMember(userId, projectId, client_name, slug);
+
+      await invalidateProjectAccessCache(userId, projectId);
+      await invalidateUserProjectsCache(userId);
+
+      logger.info('Member left project', { client_name, slug, userId });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === 404) {
+        return res.status(404).json({
+          error: 'not_a_member',
+          message: 'You are not a member of this project. Access through a group is managed by the group grant.'
+        });
+      }
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'last_owner',
+          message: 'You are the last owner of the project. Transfer ownership before leaving.'
+        });
+      }
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Project owners changed while you were leaving. Retry the request.'
+        });
+      }
+      logger.error('Error leaving project', error, { client_name, slug });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/projects/{client_name}/{slug}/members/{userId}:
@@ -286,29 +711,29 @@ router.patch('/projects/:client_name/:slug/members/:userId',
  *     responses:
  *       204:
  *         description: Member removed successfully
- *       400:
- *         description: Cannot remove the last owner from the project
  *       403:
- *         description: Insufficient permissions (owner role required)
+ *         description: Insufficient permissions (members:manage required), or the role has permissions the caller does not hold
  *       404:
  *         description: Member not found
+ *       409:
+ *         description: The member is the last owner of the project
+ *       412:
+ *         description: The project's owners changed concurrently; retry
  */
 router.delete('/projects/:client_name/:slug/members/:userId',
-  ...requireProjectAccess('owner') as any,
+  ...requireProjectAccess('members:manage') as any,
   async (req: Request, res: Response) => {
     try {
       const authReq = req as AuthRequest;
       const { client_name, slug, userId } = req.params;
       const projectId = authReq.projectId!;
 
-      // Check if this would remove the last owner
-      const members = await projectMemberRepo.getProjectMembers(client_name, slug);
-      const owners = members.filter(m => m.role === 'owner');
-      
-      if (owners.length === 1 && owners[0].userId === userId) {
-        return res.status(400).json({ 
-          error: 'Cannot remove the last owner from the project' 
-        });
+      const existing = await projectMemberRepo.getMember(userId, projectId, client_name, slug);
+      if (!existing) {
+        return sendMemberNotFound(res);
+      }
+      if (!(await canManageRole(authReq, existing.role))) {
+        return sendRoleNotManageable(res, existing.role);
       }
 
       await projectMemberRepo.removeMember(userId, projectId, client_name, slug);
@@ -319,10 +744,164 @@ router.delete('/projects/:client_name/:slug/members/:userId',
 
       res.status(204).send();
     } catch (error: any) {
+      if (error.code === 404) {
+        return sendMemberNotFound(res);
+      }
+      if (error.code === 409) {
+        return sendLastOwner(res, 'remove');
+      }
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Project owners changed while the member was being removed. Retry the request.'
+        });
+      }
       (req as any).logger.error('Error removing member', error);
       res.status(500).json({ error: error.message || 'Failed to remove member' });
     }
   }
 );
 
+/**
+ * @swagger
+ * /api/projects/{client_name}/{slug}/transfer-ownership:
+ *   post:
+ *     summary: Transfer project ownership to another member
+ *     description: |
+ *       Makes the member an owner, gives the caller previousOwnerRole (editor by default) and
+ *       sets the project's ownerId, all in one transactional batch. Only owners by individual
+ *       membership can transfer; ownership through a group grant stays with the group.
+ *     tags: [Project Members]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectOwnershipTransfer'
+ *     responses:
+ *       200:
+ *         description: Ownership transferred
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Validation failed, the caller named themselves, or previousOwnerRole is not defined for the client
+ *       403:
+ *         description: Insufficient permissions (ownership:transfer required)
+ *       404:
+ *         description: The project was not found, or the new owner is not an active member of it
+ *       409:
+ *         description: The caller is not an owner by an active individual membership
+ *       412:
+ *         description: The project or one of the members changed concurrently; retry
+ */
+router.post('/projects/:client_name/:slug/transfer-ownership',
+  ...requireProjectAccess('ownership:transfer') as any,
+  validateBody('ProjectOwnershipTransfer'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, slug } = req.params;
+    const projectId = authReq.projectId!;
+    const { userId, previousOwnerRole = 'editor' } = req.body;
+
+    try {
+      if (userId === authReq.user.userId) {
+        return res.status(400).json({
+          error: 'invalid_transfer',
+          message: 'You already own this project'
+        });
+      }
+
+      if (!(await isKnownRole(client_name, previousOwnerRole))) {
+        return res.status(400).json({
+          error: 'unknown_role',
+          message: `Role ${previousOwnerRole} is not defined for ${client_name}`
+        });
+      }
+
+      const [project, newOwner, previousOwner] = await Promise.all([
+        projectRepo.getProjectsByClientAndSlug(client_name, slug),
+        projectMemberRepo.getMember(userId, projectId, client_name, slug),
+        projectMemberRepo.getMember(authReq.user.userId, projectId, client_name, slug)
+      ]);
+
+      if (!project) {
+        return res.status(404).json({ error: 'project_not_found', message: 'Project not found' });
+      }
+
+      if (!newOwner || !isMembershipActive(newOwner)) {
+        return sendMemberNotFound(res);
+      }
+
+      // Owner access through a group grant has no membership to hand over
+      if (!previousOwner || previousOwner.role !== 'owner' || !isMembershipActive(previousOwner)) {
+        return res.status(409).json({
+          error: 'not_individual_owner',
+          message: 'Only owners by individual membership can transfer ownership'
+        });
+      }
+
+      // Owners are not time-limited
+      const { expiresAt, ...permanentMember } = newOwner;
+
+      const [result] = await projectRepo
+        .batch(client_name, slug)
+        .add(...projectRepo.replaceOperations(
+          project,
+          { ...project, ownerId: userId, updatedAt: new Date().toISOString() },
+          { editor: authReq.user }
+        ))
+        .add(...projectMemberRepo.replaceOperations(newOwner, { ...permanentMember, role: 'owner' }))
+        .add(...projectMemberRepo.replaceOperations(previousOwner, { ...previousOwner, role: previousOwnerRole }))
+        .execute();
+      const updatedProject = result.resourceBody as unknown as Project;
+
+      for (const memberId of [userId, authReq.user.userId]) {
+        await invalidateProjectAccessCache(memberId, projectId);
+        await invalidateUserProjectsCache(memberId);
+      }
+
+      logger.info('Project ownership transferred', {
+        client_name,
+        slug,
+        from: authReq.user.userId,
+        to: userId,
+        previousOwnerRole
+      });
+
+      setETag(res, updatedProject);
+      res.json(updatedProject);
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Project or members were modified by another request. Retry the transfer.'
+        });
+      }
+      logger.error('Error transferring project ownership', error, { client_name, slug });
+      res.status(500).json({ error: error.message || 'Failed to transfer ownership' });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -1,36 +1,368 @@
-import { Router, Request, Response, RequestHandler } from 'express';
+import { Router, Request, Response, RequestHandler, text } from 'express';
 import { Container } from '@azure/cosmos';
-import { ProjectRepository } from '../repositories/ProjectRepository';
+import { ProjectRepository, ProjectListFilters, ProjectListSort, ProjectSortField, PROJECT_SORT_FIELDS } from '../repositories/ProjectRepository';
 import { ProjectMemberRepository } from '../repositories/ProjectMemberRepository';
-import { verifyJWT, requireProjectAccess, AuthRequest } from '../utils/auth/AuthMiddleware';
-import { getCachedUserProjects } from '../utils/cache/CacheHelpers';
+import { ProjectGroupGrantRepository } from '../repositories/ProjectGroupGrantRepository';
+import { CustomFieldRepository } from '../repositories/CustomFieldRepository';
+import { UserPreferencesRepository } from '../repositories/UserPreferencesRepository';
+import { PagedResult } from '../repositories/Repository';
+import { Project, ProjectCount, ProjectListItem, ProjectStatus } from '../models/Project';
+import { Floor } from '../models/Floor';
+import { StructuralLayout } from '../models/StructuralLayout';
+import { CustomFieldDefinition } from '../models/CustomField';
+import { CachedProjectAccess, ProjectMember, ProjectRole, TokenUser } from '../models/ProjectMember';
+import { ProjectGroupGrant } from '../models/ProjectGroupGrant';
+import {
+  verifyJWT,
+  requireProjectAccess,
+  requireDeletedProjectAccess,
+  getCachedUserProjectAccess,
+  getProjectCreationAccess,
+  grantFirstClientAdmin,
+  sendProjectCreationDenied,
+  ProjectCreationAccess,
+  AuthRequest
+} from '../utils/auth/AuthMiddleware';
+import { ROLE_NAME_PATTERN, hasPermission } from '../utils/auth/Permissions';
+import { getCachedProjectStats, invalidateGroupMembersCache, invalidateProjectCache, invalidateUserProjectsCache } from '../utils/cache/CacheHelpers';
+import { BoundingBox, boundingBoxToPolygon, isValidCoordinate, parseBoundingBox, toFeatureCollection, toGeoPoint } from '../utils/geo/GeoJson';
+import { getIfMatch, isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { applyPatchOperations, jsonPatchToOperations, mergePatchToOperations, parsePointer } from '../utils/patch/PatchDocument';
+import { FieldError, sendValidationErrors, validateBody, validateSchema, validateSchemaAtPath } from '../utils/validation/SchemaValidator';
+import { normalizeTags, parseCustomFieldValue, validateCustomFields } from '../utils/validation/CustomFields';
+import { getQueryFingerprint, encodeContinuationToken, decodeContinuationToken } from '../utils/pagination/ContinuationToken';
+import { PROJECT_STATUSES, canTransition, getAllowedTransitions, getProjectStatus } from '../utils/lifecycle/ProjectLifecycle';
+import { BulkFormat, BULK_CONTENT_TYPES, ParsedRow, parseCsv, parseJsonLines, toCsvHeader, toCsvRow, toJsonLine } from '../utils/bulk/ProjectFormats';
 import { randomUUID } from 'crypto';
 import { logger as rootLogger } from '../utils/telemetry/logger';
 
 const logger = rootLogger;
 
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_GEO_RESULTS = 200;
+const MAX_GEO_RESULTS = 1000;
+const MAX_GEO_RADIUS_METERS = 1000000;
+const IMMUTABLE_PROJECT_FIELDS = ['id', 'client_name', 'slug', 'docType', 'ownerId', 'createdAt', 'clonedFrom'] as const;
+// Fields the server maintains itself, including Cosmos DB system properties
+const SERVER_MANAGED_FIELDS = ['updatedAt', 'location', 'revision', 'status', 'statusChangedAt', 'statusChangedBy', '_rid', '_self', '_etag', '_attachments', '_ts'];
+const PATCH_PROTECTED_FIELDS = [...IMMUTABLE_PROJECT_FIELDS, ...SERVER_MANAGED_FIELDS];
+const PROJECT_RETENTION_DAYS = parseInt(process.env.PROJECT_RETENTION_DAYS || '30');
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const MAX_IMPORT_ROWS = 1000;
+const EXPORT_PAGE_SIZE = 100;
+const FLOOR_DOC_TYPE = 'floor';
+const STRUCTURAL_LAYOUT_DOC_TYPE = 'structural_layout';
+const CUSTOM_FIELD_FILTER_PREFIX = 'cf.';
+const DEFAULT_TAG_SUGGESTIONS = 10;
+const MAX_TAG_SUGGESTIONS = 50;
+// Not carried over to a clone
+const CLONE_EXCLUDED_FIELDS = [...SERVER_MANAGED_FIELDS, 'isTemplate', 'clonedFrom', 'deletedAt', 'deletedBy', 'ttl'];
+
+interface ProjectListQuery {
+  limit: number;
+  continuationToken?: string;
+  client_name?: string;
+  role?: ProjectRole;
+  filters: ProjectListFilters;
+  customFieldFilters: Record<string, string>;   // cf.<key> parameters, typed once definitions are loaded
+  sort: ProjectListSort;
+  favoritesFirst: boolean;
+}
+
+/**
+ * Clear cached access to a project and the project lists of all its members, including
+ * those who got access through a group grant
+ */
+async function invalidateMemberCaches(
+  projectId: string,
+  members: ProjectMember[],
+  grants: ProjectGroupGrant[] = []
+): Promise<void> {
+  await invalidateProjectCache(projectId);
+  for (const userId of new Set(members.map(m => m.userId))) {
+    await invalidateUserProjectsCache(userId);
+  }
+  await invalidateGroupMembersCache(grants.map(g => g.groupId));
+}
+
+/**
+ * Answer 409 when a project's custom fields do not fit the definitions of another client
+ */
+function sendCustomFieldsMismatch(res: Response, clientName: string, errors: FieldError[]) {
+  return res.status(409).json({
+    error: 'custom_fields_mismatch',
+    message: `The project's custom fields do not match the definitions of ${clientName}`,
+    details: errors
+  });
+}
+
+/**
+ * Parse and validate the query string of GET /api/projects
+ */
+function parseProjectListQuery(query: Request['query']): ProjectListQuery | { error: string } {
+  const str = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const role = str(query.role);
+  if (role && !ROLE_NAME_PATTERN.test(role)) {
+    return { error: 'role must be a role name (lower-case letters, digits and hyphens)' };
+  }
+
+  const sortField = str(query.sort) || 'name';
+  if (!PROJECT_SORT_FIELDS.includes(sortField as ProjectSortField)) {
+    return { error: `sort must be one of: ${PROJECT_SORT_FIELDS.join(', ')}` };
+  }
+
+  const status = str(query.status);
+  if (status && !PROJECT_STATUSES.includes(status as ProjectStatus)) {
+    return { error: `status must be one of: ${PROJECT_STATUSES.join(', ')}` };
+  }
+
+  const order = (str(query.order) || 'asc').toLowerCase();
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  const tags = str(query.tags);
+
+  const customFieldFilters: Record<string, string> = {};
+  for (const [name, value] of Object.entries(query)) {
+    if (name.startsWith(CUSTOM_FIELD_FILTER_PREFIX) && typeof value === 'string') {
+      customFieldFilters[name.substring(CUSTOM_FIELD_FILTER_PREFIX.length)] = value;
+    }
+  }
+  if (Object.keys(customFieldFilters).length > 0 && !str(query.client_name)) {
+    return { error: 'client_name is required to filter by custom fields' };
+  }
+
+  return {
+    limit,
+    continuationToken: str(query.continuationToken),
+    client_name: str(query.client_name),
+    role: role as ProjectRole | undefined,
+    filters: {
+      buildingType: str(query.buildingType),
+      country: str(query.country),
+      status: status as ProjectStatus | undefined,
+      tags: tags ? normalizeTags(tags.split(',')) : undefined
+    },
+    customFieldFilters,
+    sort: {
+      field: sortField as ProjectSortField,
+      order: order === 'desc' ? 'DESC' : 'ASC'
+    },
+    favoritesFirst: query.favoritesFirst === 'true'
+  };
+}
+
 export function initProjectRoutes(container: Container) {
   const router = Router();
   const projectRepo = new ProjectRepository(container);
   const memberRepo = new ProjectMemberRepository(container);
+  const groupGrantRepo = new ProjectGroupGrantRepository(container);
+  const customFieldRepo = new CustomFieldRepository(container);
+  const preferencesRepo = new UserPreferencesRepository(container);
+
+  /**
+   * One page of the project list with favorites first: the favorites are paged through
+   * before the other projects, each in the requested order. The returned token is the
+   * Cosmos token of the current phase prefixed with "f:" (favorites) or "o:" (others).
+   */
+  async function getFavoritesFirstPage(
+    projectIds: string[],
+    favoriteIds: Set<string>,
+    filters: ProjectListFilters,
+    sort: ProjectListSort,
+    limit: number,
+    token?: string
+  ): Promise<PagedResult<Project>> {
+    const phases = [
+      { prefix: 'f:', ids: projectIds.filter(id => favoriteIds.has(id)) },
+      { prefix: 'o:', ids: projectIds.filter(id => !favoriteIds.has(id)) }
+    ];
+    let phase = token?.startsWith('o:') ? 1 : 0;
+    let continuationToken = token?.substring(2) || undefined;
+    const resources: Project[] = [];
+
+    while (phase < phases.length && resources.length < limit) {
+      if (phases[phase].ids.length > 0) {
+        const page = await projectRepo.getProjectsPage(phases[phase].ids, filters, sort, {
+          maxItemCount: limit - resources.length,
+          continuationToken
+        });
+        resources.push(...page.resources);
+
+        if (page.continuationToken) {
+          return { resources, continuationToken: phases[phase].prefix + page.continuationToken };
+        }
+      }
+      phase++;
+      continuationToken = undefined;
+    }
+
+    const hasMore = phase < phases.length && phases[phase].ids.length > 0;
+    return { resources, continuationToken: hasMore ? phases[phase].prefix : undefined };
+  }
+
+  /**
+   * Normalize tags and validate custom field values against the client's definitions.
+   * Updates (`partial`) only check customFields when they are written. Pass a map to
+   * reuse definitions across many projects (imports).
+   */
+  async function checkProjectFields(
+    clientName: string,
+    data: Record<string, any>,
+    partial: boolean,
+    definitions: Map<string, CustomFieldDefinition[]> = new Map()
+  ): Promise<FieldError[]> {
+    if (Array.isArray(data.tags)) {
+      data.tags = normalizeTags(data.tags);
+    }
+    if (partial && data.customFields === undefined) {
+      return [];
+    }
+
+    if (!definitions.has(clientName)) {
+      definitions.set(clientName, await customFieldRepo.getDefinitions(clientName));
+    }
+    return validateCustomFields(definitions.get(clientName)!, data.customFields);
+  }
+
+  /**
+   * Create a project and add the user as its owner. Both documents live in the
+   * project's partition and are written in one transactional batch.
+   */
+  async function createProjectWithOwner(projectData: Record<string, any>, user: TokenUser): Promise<Project> {
+    const projectId = randomUUID();
+
+    const newProject: any = {
+      id: projectId,
+      docType: 'project',
+      ...projectData,
+      status: 'draft',
+      ownerId: user.userId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    const [result] = await projectRepo
+      .batch(newProject.client_name, newProject.slug)
+      .add(...projectRepo.createOperations(newProject, { editor: user }))
+      .add(...memberRepo.createOperations({
+        id: randomUUID(),
+        client_name: newProject.client_name,
+        slug: newProject.slug,
+        projectId,
+        userId: user.userId,
+        email: user.email || 'unknown',
+        role: 'owner',
+        userName: user.name || 'Unknown'
+      }))
+      .execute();
+    const createdProject = result.resourceBody as unknown as Project;
+
+    await invalidateUserProjectsCache(user.userId);
+
+    return createdProject;
+  }
 
   /**
    * @swagger
    * /api/projects:
    *   get:
-   *     summary: Get all projects for authenticated user
+   *     summary: Get projects for authenticated user
+   *     description: |
+   *       Returns one page of the projects the caller is a member of. Pass the returned
+   *       `continuationToken` back to fetch the next page; it is only valid for the same
+   *       filters and sort order.
    *     tags: [Projects]
    *     security:
    *       - BearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 25
+   *         description: Maximum number of projects to return
+   *       - in: query
+   *         name: continuationToken
+   *         schema:
+   *           type: string
+   *         description: Opaque token from a previous response
+   *       - in: query
+   *         name: client_name
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: role
+   *         schema:
+   *           type: string
+   *           example: editor
+   *         description: Only projects where the caller has this role (built-in or custom)
+   *       - in: query
+   *         name: buildingType
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: country
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [draft, active, on_hold, archived]
+   *         description: Lifecycle status (projects without one count as active)
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: string
+   *         description: Comma-separated tags; projects must have all of them
+   *       - in: query
+   *         name: cf.{key}
+   *         schema:
+   *           type: string
+   *         description: Custom field value, e.g. cf.region=north (requires client_name)
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, client_name, slug, buildingType, country, constructionDate, createdAt, updatedAt]
+   *           default: name
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *           default: asc
+   *       - in: query
+   *         name: favoritesFirst
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: List the caller's favorites before the other projects, each in the requested order
    *     responses:
    *       200:
-   *         description: List of user's projects
+   *         description: A page of the user's projects
    *         content:
    *           application/json:
    *             schema:
-   *               type: array
-   *               items:
-   *                 $ref: '#/components/schemas/Project'
+   *               $ref: '#/components/schemas/ProjectPage'
+   *       400:
+   *         description: Invalid query parameters or continuation token
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    *       401:
    *         description: Unauthorized
    *         content:
@@ -42,27 +374,233 @@ export function initProjectRoutes(container: Container) {
     const authReq = req as AuthRequest;
     
     try {
-      logger.info('Fetching user projects', { userId: authReq.user.userId });
-      
-      const projects = await getCachedUserProjects(
-        authReq.user.userId,
-        async () => {
-          return await memberRepo.getUserProjects(authReq.user.userId);
+      const parsed = parseProjectListQuery(req.query);
+      if ('error' in parsed) {
+        logger.warn('Project list validation failed', { reason: parsed.error });
+        return res.status(400).json({ error: 'invalid_query', message: parsed.error });
+      }
+
+      const { limit, continuationToken, client_name, role, filters, customFieldFilters, sort, favoritesFirst } = parsed;
+
+      // Query values are converted to the type of their field definition
+      if (Object.keys(customFieldFilters).length > 0) {
+        const definitions = await customFieldRepo.getDefinitions(client_name!);
+        filters.customFields = {};
+
+        for (const [key, raw] of Object.entries(customFieldFilters)) {
+          const definition = definitions.find(d => d.key === key);
+          const value = definition && parseCustomFieldValue(definition, raw);
+          if (value === undefined) {
+            return res.status(400).json({
+              error: 'invalid_query',
+              message: definition
+                ? `${CUSTOM_FIELD_FILTER_PREFIX}${key} is not a valid ${definition.type} value for this field`
+                : `${CUSTOM_FIELD_FILTER_PREFIX}${key} is not a custom field of ${client_name}`
+            });
+          }
+          filters.customFields[key] = value;
+        }
+      }
+
+      const fingerprint = getQueryFingerprint({ client_name, role, ...filters, ...sort, favoritesFirst });
+
+      let cosmosToken: string | undefined;
+      if (continuationToken) {
+        try {
+          cosmosToken = decodeContinuationToken(continuationToken, fingerprint);
+        } catch (error: any) {
+          return res.status(400).json({ error: 'invalid_continuation_token', message: error.message });
         }
+      }
+
+      logger.info('Fetching user projects', { userId: authReq.user.userId, limit, sort });
+      
+      // Membership list comes from cache; filters on membership fields are applied here
+      const access = await getCachedUserProjectAccess(authReq.user);
+
+      const accessible = access.filter(a =>
+        (!client_name || a.client_name === client_name) &&
+        (!role || a.role === role)
       );
 
+      if (accessible.length === 0) {
+        return res.json({ items: [], continuationToken: null });
+      }
+
+      const roles = new Map(accessible.map(a => [a.projectId, a.role as ProjectRole]));
+
+      const preferences = await preferencesRepo.getPreferences(authReq.user.userId);
+      const favoriteIds = new Set(preferences.favorites.map(f => f.projectId));
+
+      const page = favoritesFirst
+        ? await getFavoritesFirstPage([...roles.keys()], favoriteIds, filters, sort, limit, cosmosToken)
+        : await projectRepo.getProjectsPage(
+            [...roles.keys()],
+            filters,
+            sort,
+            { maxItemCount: limit, continuationToken: cosmosToken }
+          );
+
+      const items: ProjectListItem[] = page.resources.map(project => ({
+        ...project,
+        role: roles.get(project.id)!,
+        favorite: favoriteIds.has(project.id)
+      }));
+
       logger.info('Projects fetched', { 
         userId: authReq.user.userId,
-        count: projects.length 
+        count: items.length,
+        hasMore: !!page.continuationToken
       });
 
-      res.json(projects);
+      res.json({
+        items,
+        continuationToken: page.continuationToken
+          ? encodeContinuationToken(page.continuationToken, fingerprint)
+          : null
+      });
     } catch (error: any) {
+      if (error.code === 400 && req.query.continuationToken) {
+        return res.status(400).json({
+          error: 'invalid_continuation_token',
+          message: 'Continuation token is no longer valid. Restart from the first page.'
+        });
+      }
       logger.error('Error fetching user projects', error);
       res.status(500).json({ error: error.message });
     }
   });
 
+  /**
+   * @swagger
+   * /api/projects/search/geo:
+   *   get:
+   *     summary: Search accessible projects by location
+   *     description: |
+   *       Provide either `lat`, `lon` and `radius` (meters) for a radius search, or
+   *       `bbox` as `minLon,minLat,maxLon,maxLat` for a bounding box search.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: lat
+   *         schema:
+   *           type: number
+   *       - in: query
+   *         name: lon
+   *         schema:
+   *           type: number
+   *       - in: query
+   *         name: radius
+   *         schema:
+   *           type: number
+   *           maximum: 1000000
+   *         description: Search radius in meters
+   *       - in: query
+   *         name: bbox
+   *         schema:
+   *           type: string
+   *           example: "-0.5,51.3,0.3,51.7"
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 1000
+   *           default: 200
+   *     responses:
+   *       200:
+   *         description: GeoJSON FeatureCollection of matching projects
+   *         content:
+   *           application/geo+json:
+   *             schema:
+   *               $ref: '#/components/schemas/ProjectFeatureCollection'
+   *       400:
+   *         description: Invalid search parameters
+   *       401:
+   *         description: Unauthorized
+   */
+  router.get('/search/geo', verifyJWT, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { lat, lon, radius, bbox, limit } = req.query;
+
+    try {
+      const maxResults = limit === undefined ? DEFAULT_GEO_RESULTS : Number(limit);
+      if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_GEO_RESULTS) {
+        return res.status(400).json({
+          error: 'invalid_query',
+          message: `limit must be an integer between 1 and ${MAX_GEO_RESULTS}`
+        });
+      }
+
+      let boundingBox: BoundingBox | undefined;
+      let center: { lat: number; lon: number; radius: number } | undefined;
+
+      if (typeof bbox === 'string') {
+        boundingBox = parseBoundingBox(bbox);
+        if (!boundingBox) {
+          return res.status(400).json({
+            error: 'invalid_query',
+            message: 'bbox must be minLon,minLat,maxLon,maxLat with valid coordinates'
+          });
+        }
+      } else {
+        const point = { lat: Number(lat), lon: Number(lon), radius: Number(radius) };
+        if (!isValidCoordinate(point.lat, point.lon) ||
+            !Number.isFinite(point.radius) || point.radius <= 0 || point.radius > MAX_GEO_RADIUS_METERS) {
+          return res.status(400).json({
+            error: 'invalid_query',
+            message: `Provide bbox, or lat, lon and radius (meters, up to ${MAX_GEO_RADIUS_METERS})`
+          });
+        }
+        center = point;
+      }
+
+      logger.info('Searching projects by location', {
+        userId: authReq.user.userId,
+        ...(boundingBox ? { bbox: boundingBox } : center)
+      });
+
+      const access = await getCachedUserProjectAccess(authReq.user);
+
+      const roles = new Map(access.map(a => [a.projectId, a.role as ProjectRole]));
+      if (roles.size === 0) {
+        return res.type('application/geo+json').json(toFeatureCollection([]));
+      }
+
+      const projects: Array<Project & { distance?: number }> = boundingBox
+        ? await projectRepo.searchWithin([...roles.keys()], boundingBoxToPolygon(boundingBox), maxResults)
+        : await projectRepo.searchNear([...roles.keys()], toGeoPoint(center!.lat, center!.lon), center!.radius, maxResults);
+
+      const features = projects
+        .filter(p => p.location)
+        .map(p => ({
+          type: 'Feature' as const,
+          geometry: p.location!,
+          properties: {
+            id: p.id,
+            client_name: p.client_name,
+            slug: p.slug,
+            name: p.name,
+            buildingType: p.buildingType,
+            role: roles.get(p.id)!,
+            ...(p.distance !== undefined && { distance: p.distance })
+          }
+        }));
+
+      logger.info('Geo search completed', {
+        userId: authReq.user.userId,
+        count: features.length
+      });
+
+      res.type('application/geo+json').json(toFeatureCollection(features));
+    } catch (error: any) {
+      logger.error('Error searching projects by location', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   /**
    * @swagger
    * /api/projects:
@@ -71,12 +609,14 @@ export function initProjectRoutes(container: Container) {
    *     tags: [Projects]
    *     security:
    *       - BearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/Project'
+   *             $ref: '#/components/schemas/ProjectCreate'
    *     responses:
    *       201:
    *         description: Project created successfully
@@ -85,19 +625,20 @@ export function initProjectRoutes(container: Container) {
    *             schema:
    *               $ref: '#/components/schemas/Project'
    *       400:
-   *         description: Bad request - missing required fields
+   *         description: Validation failed - missing, mistyped or unknown fields
    *       401:
    *         description: Unauthorized
+   *       403:
+   *         description: The client exists and the caller has neither project:create on one of its projects nor a client admin grant
    *       409:
    *         description: Project already exists
    */
-  router.post('/', verifyJWT, async (req: Request, res: Response) => {
+  router.post('/', verifyJWT, validateBody('ProjectCreate'), idempotent, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     const projectData = req.body;
     
     try {
       const userId = authReq.user.userId;
-      const userEmail = authReq.user.email || 'unknown';
 
       logger.info('Creating project', { 
         userId,
@@ -105,10 +646,15 @@ export function initProjectRoutes(container: Container) {
         slug: projectData.slug 
       });
 
-      // Basic validation
-      if (!projectData.client_name || !projectData.slug || !projectData.name || !projectData.projectNumber) {
-        logger.warn('Project creation validation failed', { reason: 'missing-required-fields' });
-        return res.status(400).json({ error: 'Missing required fields: client_name, slug, name, projectNumber' });
+      const creation = await getProjectCreationAccess(authReq.user, projectData.client_name);
+      if (creation === 'denied') {
+        return sendProjectCreationDenied(res, projectData.client_name);
+      }
+
+      const fieldErrors = await checkProjectFields(projectData.client_name, projectData, false);
+      if (fieldErrors.length > 0) {
+        logger.warn('Project custom field validation failed', { client_name: projectData.client_name, errors: fieldErrors });
+        return sendValidationErrors(res, fieldErrors);
       }
 
       // Check if project exists
@@ -116,43 +662,24 @@ export function initProjectRoutes(container: Container) {
       if (existingProject) {
         logger.warn('Project already exists', { 
           client_name: projectData.client_name,
-          slug: projectData.slug 
+          slug: projectData.slug,
+          deleted: !!existingProject.deletedAt
+        });
+        return res.status(409).json({
+          error: existingProject.deletedAt
+            ? 'Project with this client_name and slug is in the trash; restore or purge it first'
+            : 'Project with this client_name and slug already exists'
         });
-        return res.status(409).json({ error: 'Project with this client_name and slug already exists' });
       }
 
-      const projectId = randomUUID();
-
-      // Create Project
-      const newProject: any = {
-        id: projectId,
-        docType: 'project',
-        ...projectData,
-        ownerId: userId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      const createdProject = await projectRepo.create(newProject);
-      
-      const memberId = randomUUID();
-
-      // Add Creator as Owner
-      await memberRepo.create({
-        id: memberId,
-        docType: 'projectMember',
-        client_name: createdProject.client_name,
-        slug: createdProject.slug,
-        projectId: createdProject.id,
-        userId: userId,
-        email: userEmail,
-        role: 'owner',
-        userName: authReq.user.name || 'Unknown'
-      });
+      const createdProject = await createProjectWithOwner(projectData, authReq.user);
+      if (creation === 'new_client') {
+        await grantFirstClientAdmin(authReq.user, projectData.client_name);
+      }
 
       logger.info('Project created successfully', {
         userId,
-        projectId,
+        projectId: createdProject.id,
         client_name: projectData.client_name,
         slug: projectData.slug
       });
@@ -192,6 +719,11 @@ export function initProjectRoutes(container: Container) {
    *     responses:
    *       200:
    *         description: Project details
+   *         headers:
+   *           ETag:
+   *             schema:
+   *               type: string
+   *             description: Current version of the project, for use with If-Match
    *         content:
    *           application/json:
    *             schema:
@@ -202,7 +734,7 @@ export function initProjectRoutes(container: Container) {
    *         description: Unauthorized
    */
   router.get('/:client_name/:slug', 
-    ...requireProjectAccess() as any,
+    ...requireProjectAccess('project:read') as any,
     async (req: Request, res: Response) => {
       const authReq = req as AuthRequest;
       const { client_name, slug } = req.params;
@@ -221,6 +753,12 @@ export function initProjectRoutes(container: Container) {
           return res.status(404).json({ error: 'Project not found' });
         }
         
+        // Recorded in the background; a failure must not fail the read
+        preferencesRepo
+          .recordView(authReq.user.userId, { projectId: project.id, client_name, slug })
+          .catch(viewError => logger.warn('Failed to record recent project view', { client_name, slug, error: viewError.message }));
+
+        setETag(res, project);
         res.json(project);
       } catch (error: any) {
         logger.error('Error fetching project details', error, {
@@ -250,27 +788,34 @@ export function initProjectRoutes(container: Container) {
    *         required: true
    *         schema:
    *           type: string
+   *       - in: header
+   *         name: If-Match
+   *         required: false
+   *         schema:
+   *           type: string
+   *         description: ETag from a previous read; the update is rejected if the project has changed since
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             type: object
-   *             properties:
-   *               name:
-   *                 type: string
-   *               address:
-   *                 type: string
+   *             $ref: '#/components/schemas/ProjectUpdate'
    *     responses:
    *       200:
    *         description: Project updated
+   *         headers:
+   *           ETag:
+   *             schema:
+   *               type: string
    *       403:
-   *         description: Insufficient permissions
+   *         description: Insufficient permissions (project:update required)
    *       404:
    *         description: Project not found
+   *       412:
+   *         description: Project was modified since the If-Match ETag was read
    */
   router.put('/:client_name/:slug', 
-    ...requireProjectAccess('editor') as any,
+    ...requireProjectAccess('project:update') as any,
     async (req: Request, res: Response) => {
       const authReq = req as AuthRequest;
       const { client_name, slug } = req.params;
@@ -286,17 +831,26 @@ export function initProjectRoutes(container: Container) {
           fields: Object.keys(updates)
         });
 
-        // Prevent updating immutable fields
-        delete updates.id;
-        delete updates.client_name;
-        delete updates.slug;
-        delete updates.docType;
-        delete updates.createdAt;
-        delete updates.ownerId;
+        // Ignore immutable and server-managed fields so a fetched document can be sent back as-is
+        for (const field of [...IMMUTABLE_PROJECT_FIELDS, ...SERVER_MANAGED_FIELDS]) {
+          delete updates[field];
+        }
+
+        const errors = validateSchema('ProjectUpdate', updates);
+        if (errors.length === 0) {
+          errors.push(...await checkProjectFields(client_name, updates, true));
+        }
+        if (errors.length > 0) {
+          logger.warn('Project update validation failed', { client_name, slug, errors });
+          return sendValidationErrors(res, errors);
+        }
 
         updates.updatedAt = new Date().toISOString();
 
-        const updatedProject = await projectRepo.update(projectId, client_name, slug, updates);
+        const updatedProject = await projectRepo.update(projectId, client_name, slug, updates, {
+          ifMatch: getIfMatch(req),
+          editor: authReq.user
+        });
         
         logger.info('Project updated successfully', {
           projectId,
@@ -305,9 +859,17 @@ export function initProjectRoutes(container: Container) {
           fields: Object.keys(updates)
         });
         
+        setETag(res, updatedProject);
         res.json(updatedProject);
 
       } catch (error: any) {
+        if (isPreconditionFailed(error)) {
+          logger.warn('Project update rejected by If-Match', { client_name, slug });
+          return res.status(412).json({
+            error: 'precondition_failed',
+            message: 'Project was modified by another request. Fetch the latest version and retry.'
+          });
+        }
         logger.error('Error updating project', error, {
           client_name,
           slug
@@ -319,8 +881,13 @@ export function initProjectRoutes(container: Container) {
   /**
    * @swagger
    * /api/projects/{client_name}/{slug}:
-   *   delete:
-   *     summary: Delete a project
+   *   patch:
+   *     summary: Partially update a project
+   *     description: |
+   *       Accepts a JSON Merge Patch (RFC 7396) or a JSON Patch (RFC 6902) document and applies it
+   *       as a Cosmos DB partial document update. id, client_name, slug, docType, ownerId, createdAt,
+   *       updatedAt and location cannot be modified. A patch that changes nothing returns the
+   *       project unchanged, without a write.
    *     tags: [Projects]
    *     security:
    *       - BearerAuth: []
@@ -330,49 +897,185 @@ export function initProjectRoutes(container: Container) {
    *         required: true
    *         schema:
    *           type: string
-   *         description: Client name
    *       - in: path
    *         name: slug
    *         required: true
    *         schema:
    *           type: string
-   *         description: Project slug
+   *       - in: header
+   *         name: If-Match
+   *         required: false
+   *         schema:
+   *           type: string
+   *         description: ETag from a previous read; the patch is rejected if the project has changed since
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/merge-patch+json:
+   *           schema:
+   *             type: object
+   *           example:
+   *             details:
+   *               author: Jane Doe
+   *             extra:
+   *               uploads: null
+   *         application/json-patch+json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               type: object
+   *               required: [op, path]
+   *               properties:
+   *                 op:
+   *                   type: string
+   *                   enum: [add, remove, replace, move, copy, test]
+   *                 path:
+   *                   type: string
+   *                 from:
+   *                   type: string
+   *                 value: {}
+   *           example:
+   *             - op: test
+   *               path: /details/author
+   *               value: System
+   *             - op: replace
+   *               path: /details/author
+   *               value: Jane Doe
    *     responses:
-   *       204:
-   *         description: Project deleted successfully
+   *       200:
+   *         description: Project updated
+   *         headers:
+   *           ETag:
+   *             schema:
+   *               type: string
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Project'
+   *       400:
+   *         description: Invalid patch document, failed test, write to an immutable field, or invalid value
    *       403:
-   *         description: Insufficient permissions (owner role required)
+   *         description: Insufficient permissions (project:update required)
    *       404:
    *         description: Project not found
+   *       412:
+   *         description: Project was modified since the If-Match ETag was read
+   *       415:
+   *         description: Unsupported patch media type
    */
-  router.delete('/:client_name/:slug', 
-    ...requireProjectAccess('owner') as any,
+  router.patch('/:client_name/:slug',
+    ...requireProjectAccess('project:update') as any,
     async (req: Request, res: Response) => {
       const authReq = req as AuthRequest;
       const { client_name, slug } = req.params;
-      
+
       try {
         const projectId = authReq.projectId!;
+        const isJsonPatch = !!req.is('application/json-patch+json');
+        const isMergePatch = !!req.is('application/merge-patch+json');
+
+        if (!isJsonPatch && !isMergePatch) {
+          return res.status(415).json({
+            error: 'unsupported_media_type',
+            message: 'Use application/merge-patch+json or application/json-patch+json'
+          });
+        }
+
+        // Patch operations are derived from this snapshot, so the write is conditional on its _etag
+        const project = await projectRepo.getById(projectId, client_name, slug);
+        if (!project) {
+          return res.status(404).json({ error: 'Project not found' });
+        }
+
+        const ifMatch = getIfMatch(req);
+        if (ifMatch && ifMatch !== project._etag) {
+          return res.status(412).json({
+            error: 'precondition_failed',
+            message: 'Project was modified by another request. Fetch the latest version and retry.'
+          });
+        }
+
+        const result = isJsonPatch
+          ? jsonPatchToOperations(req.body, project, PATCH_PROTECTED_FIELDS)
+          : mergePatchToOperations(req.body, project, PATCH_PROTECTED_FIELDS);
+
+        if ('error' in result) {
+          logger.warn('Project patch rejected', { client_name, slug, reason: result.error });
+          return res.status(400).json({ error: 'invalid_patch', message: result.error });
+        }
+
+        // Nothing to write (e.g. a merge patch repeating stored values): answer as a GET would
+        if (result.operations.length === 0) {
+          setETag(res, project);
+          return res.json(project);
+        }
+
+        // Validate every written value against the schema of the path it lands on
+        const errors = result.operations.flatMap(o =>
+          o.op === 'remove' ? [] : validateSchemaAtPath('ProjectUpdate', parsePointer(o.path)!, o.value)
+        );
+        if (errors.length > 0) {
+          logger.warn('Project patch validation failed', { client_name, slug, errors });
+          return sendValidationErrors(res, errors);
+        }
+
+        // Tags and custom fields are checked on the patched document
+        const touches = (field: string) =>
+          result.operations.some(o => o.path === `/${field}` || o.path.startsWith(`/${field}/`));
+        let patchOperations = result.operations;
+
+        if (touches('tags') || touches('customFields')) {
+          const patched = applyPatchOperations(project, result.operations);
+          const fieldErrors = await checkProjectFields(client_name, patched, !touches('customFields'));
+          if (fieldErrors.length > 0) {
+            logger.warn('Project patch validation failed', { client_name, slug, errors: fieldErrors });
+            return sendValidationErrors(res, fieldErrors);
+          }
+
+          if (touches('tags') && patched.tags) {
+            patchOperations = [
+              ...patchOperations.filter(o => o.path !== '/tags' && !o.path.startsWith('/tags/')),
+              { op: 'set', path: '/tags', value: patched.tags }
+            ];
+          }
+        }
+
+        const operations = [
+          ...patchOperations,
+          { op: 'set' as const, path: '/updatedAt', value: new Date().toISOString() }
+        ];
 
-        logger.info('Deleting project', { 
+        logger.info('Patching project', {
           client_name,
           slug,
-          projectId 
+          projectId,
+          format: isJsonPatch ? 'json-patch' : 'merge-patch',
+          paths: operations.map(o => o.path)
         });
 
-        // Delete project
-        await container.item(projectId, [client_name, slug]).delete();
-        
-        logger.info('Project deleted successfully', {
-          projectId,
-          client_name,
-          slug
+        const patchedProject = await projectRepo.patch(projectId, client_name, slug, operations, {
+          ifMatch: project._etag,
+          editor: authReq.user
         });
-        
-        res.status(204).send();
 
+        logger.info('Project patched successfully', { projectId, client_name, slug });
+
+        setETag(res, patchedProject);
+        res.json(patchedProject);
       } catch (error: any) {
-        logger.error('Error deleting project', error, {
+        if (isPreconditionFailed(error)) {
+          return res.status(412).json({
+            error: 'precondition_failed',
+            message: 'Project was modified by another request. Fetch the latest version and retry.'
+          });
+        }
+        if (error.code === 400) {
+          return res.status(400).json({
+            error: 'invalid_patch',
+            message: 'Patch could not be applied to the project document'
+          });
+        }
+        logger.error('Error patching project', error, {
           client_name,
           slug
         });
@@ -380,5 +1083,1148 @@ export function initProjectRoutes(container: Container) {
       }
   });
 
+  /**
+   * @swagger
+   * /api/projects/{client_name}/{slug}:
+   *   delete:
+   *     summary: Move a project to the trash
+   *     description: |
+   *       Soft deletes the project: every document in its [client_name, slug] partition is stamped
+   *       with deletedAt/deletedBy and a TTL of PROJECT_RETENTION_DAYS, after which Cosmos DB purges
+   *       it. The project disappears from listings and access checks until it is restored.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: client_name
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Client name
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Project slug
+   *     responses:
+   *       204:
+   *         description: Project moved to the trash
+   *       403:
+   *         description: Insufficient permissions (project:delete required)
+   *       404:
+   *         description: Project not found
+   */
+  router.delete('/:client_name/:slug', 
+    ...requireProjectAccess('project:delete') as any,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = req.params;
+      
+      try {
+        const projectId = authReq.projectId!;
+
+        logger.info('Moving project to trash', { 
+          client_name,
+          slug,
+          projectId,
+          retentionDays: PROJECT_RETENTION_DAYS
+        });
+
+        const [members, grants] = await Promise.all([
+          memberRepo.getProjectMembers(client_name, slug),
+          groupGrantRepo.getProjectGrants(client_name, slug)
+        ]);
+
+        await projectRepo.softDeletePartition(
+          client_name,
+          slug,
+          projectId,
+          authReq.user.userId,
+          PROJECT_RETENTION_DAYS * SECONDS_PER_DAY
+        );
+
+        await invalidateMemberCaches(projectId, members, grants);
+        
+        logger.info('Project moved to trash', {
+          projectId,
+          client_name,
+          slug,
+          members: members.length
+        });
+        
+        res.status(204).send();
+
+      } catch (error: any) {
+        logger.error('Error deleting project', error, {
+          client_name,
+          slug
+        });
+        res.status(500).json({ error: error.message });
+      }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/import:
+   *   post:
+   *     summary: Create or update projects in bulk
+   *     description: |
+   *       Accepts JSON Lines (one ProjectCreate object per line) or CSV with a header row of
+   *       the same fields, nested ones as dotted columns (e.g. `details.country`). Each new
+   *       project gets the caller as owner. Rows whose client_name/slug already exists are
+   *       skipped, or updated with `onExisting=update` if the caller is editor or owner.
+   *       With `dryRun=true` nothing is written and the report shows what would happen.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
+   *       - in: query
+   *         name: dryRun
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *       - in: query
+   *         name: onExisting
+   *         schema:
+   *           type: string
+   *           enum: [skip, update]
+   *           default: skip
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/x-ndjson:
+   *           schema:
+   *             type: string
+   *         text/csv:
+   *           schema:
+   *             type: string
+   *     responses:
+   *       200:
+   *         description: Per-row import report
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ProjectImportReport'
+   *       400:
+   *         description: Invalid query parameters, unknown CSV columns or too many rows
+   *       415:
+   *         description: Unsupported content type
+   */
+  router.post('/import',
+    verifyJWT,
+    text({ type: ['application/x-ndjson', 'application/jsonl', 'text/csv'], limit: '10mb' }),
+    idempotent,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+
+      try {
+        const format: BulkFormat | false = req.is('text/csv')
+          ? 'csv'
+          : req.is(['application/x-ndjson', 'application/jsonl']) ? 'jsonl' : false;
+
+        if (!format || typeof req.body !== 'string') {
+          return res.status(415).json({
+            error: 'unsupported_media_type',
+            message: 'Use application/x-ndjson or text/csv'
+          });
+        }
+
+        const dryRun = req.query.dryRun === 'true';
+        const onExisting = req.query.onExisting ?? 'skip';
+        if (onExisting !== 'skip' && onExisting !== 'update') {
+          return res.status(400).json({ error: 'invalid_query', message: 'onExisting must be skip or update' });
+        }
+
+        const rows: ParsedRow[] = format === 'csv' ? parseCsv(req.body) : parseJsonLines(req.body);
+        if (rows.length === 1 && rows[0].row === 0) {
+          return res.status(400).json({ error: 'invalid_csv_header', message: rows[0].error });
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+          return res.status(400).json({
+            error: 'too_many_rows',
+            message: `Import at most ${MAX_IMPORT_ROWS} projects per request`
+          });
+        }
+
+        logger.info('Importing projects', {
+          userId: authReq.user.userId,
+          format,
+          rows: rows.length,
+          dryRun,
+          onExisting
+        });
+
+        const access = await getCachedUserProjectAccess(authReq.user);
+        const roles = new Map(access.map(a => [a.projectId, a.role as ProjectRole]));
+
+        const seen = new Set<string>();
+        const results = [];
+        const definitions = new Map<string, CustomFieldDefinition[]>();
+        const creation = new Map<string, ProjectCreationAccess>();
+
+        for (const { row, value, error } of rows) {
+          const key = { client_name: value?.client_name, slug: value?.slug };
+
+          if (error) {
+            results.push({ row, status: 'invalid', message: error });
+            continue;
+          }
+
+          const errors = validateSchema('ProjectCreate', value);
+          if (errors.length > 0) {
+            results.push({ row, ...key, status: 'invalid', details: errors });
+            continue;
+          }
+
+          const id = JSON.stringify([key.client_name, key.slug]);
+          if (seen.has(id)) {
+            results.push({ row, ...key, status: 'invalid', message: 'Duplicate client_name/slug in this import' });
+            continue;
+          }
+          seen.add(id);
+
+          try {
+            const existing = await projectRepo.getProjectsByClientAndSlug(key.client_name, key.slug);
+
+            if (!existing && !creation.has(key.client_name)) {
+              creation.set(key.client_name, await getProjectCreationAccess(authReq.user, key.client_name));
+            }
+            if (!existing && creation.get(key.client_name) === 'denied') {
+              results.push({ row, ...key, status: 'forbidden', message: 'project:create permission or a client admin grant required to create' });
+              continue;
+            }
+
+            const fieldErrors = await checkProjectFields(key.client_name, value!, !!existing, definitions);
+            if (fieldErrors.length > 0) {
+              results.push({ row, ...key, status: 'invalid', details: fieldErrors });
+              continue;
+            }
+
+            if (!existing) {
+              const created = dryRun ? undefined : await createProjectWithOwner(value!, authReq.user);
+              if (creation.get(key.client_name) === 'new_client') {
+                if (!dryRun) {
+                  await grantFirstClientAdmin(authReq.user, key.client_name);
+                }
+                creation.set(key.client_name, 'allowed');
+              }
+              results.push({ row, ...key, status: 'created', ...(created && { id: created.id }) });
+            } else if (existing.deletedAt) {
+              results.push({ row, ...key, status: 'conflict', message: 'Project is in the trash' });
+            } else if (onExisting === 'update' && getProjectStatus(existing) === 'archived') {
+              results.push({ row, ...key, status: 'conflict', id: existing.id, message: 'Project is archived' });
+            } else if (onExisting === 'skip') {
+              results.push({ row, ...key, status: 'skipped', id: existing.id });
+            } else if (!roles.has(existing.id)
+              || !(await hasPermission(existing.client_name, roles.get(existing.id)!, 'project:update'))) {
+              results.push({ row, ...key, status: 'forbidden', id: existing.id, message: 'project:update permission required to update' });
+            } else {
+              if (!dryRun) {
+                const { client_name, slug, ...updates } = value!;
+                await projectRepo.update(existing.id, client_name, slug, {
+                  ...updates,
+                  updatedAt: new Date().toISOString()
+                }, { editor: authReq.user });
+              }
+              results.push({ row, ...key, status: 'updated', id: existing.id });
+            }
+          } catch (rowError: any) {
+            logger.error('Error importing project row', rowError, { row, ...key });
+            results.push({ row, ...key, status: 'failed', message: rowError.message });
+          }
+        }
+
+        const summary: Record<string, number> = {};
+        for (const result of results) {
+          summary[result.status] = (summary[result.status] || 0) + 1;
+        }
+
+        logger.info('Projects imported', { userId: authReq.user.userId, dryRun, summary });
+
+        res.json({ dryRun, summary, results });
+      } catch (error: any) {
+        logger.error('Error importing projects', error);
+        res.status(500).json({ error: error.message });
+      }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/export:
+   *   get:
+   *     summary: Export every project the caller can access
+   *     description: Streams the projects in the same formats POST /api/projects/import accepts.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [jsonl, csv]
+   *           default: jsonl
+   *     responses:
+   *       200:
+   *         description: Projects, sorted by client_name
+   *         content:
+   *           application/x-ndjson:
+   *             schema:
+   *               type: string
+   *           text/csv:
+   *             schema:
+   *               type: string
+   *       400:
+   *         description: Unknown format
+   */
+  router.get('/export', verifyJWT, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const format = (req.query.format ?? 'jsonl') as BulkFormat;
+
+    // Own keys only: `in` would also accept inherited names such as toString
+    if (typeof format !== 'string' || !Object.prototype.hasOwnProperty.call(BULK_CONTENT_TYPES, format)) {
+      return res.status(400).json({ error: 'invalid_query', message: 'format must be jsonl or csv' });
+    }
+
+    try {
+      const access = await getCachedUserProjectAccess(authReq.user);
+
+      logger.info('Exporting projects', { userId: authReq.user.userId, format, projects: access.length });
+
+      res.status(200);
+      // attachment() sets Content-Type from the extension, which Express does not know for .jsonl
+      res.attachment(`projects.${format}`);
+      res.type(BULK_CONTENT_TYPES[format]);
+
+      if (format === 'csv') {
+        res.write(toCsvHeader());
+      }
+
+      let continuationToken: string | undefined;
+      if (access.length > 0) {
+        do {
+          const page = await projectRepo.getProjectsPage(
+            access.map(a => a.projectId),
+            {},
+            { field: 'client_name', order: 'ASC' },
+            { maxItemCount: EXPORT_PAGE_SIZE, continuationToken }
+          );
+
+          for (const project of page.resources) {
+            res.write(format === 'csv' ? toCsvRow(project) : toJsonLine(project));
+          }
+          continuationToken = page.continuationToken;
+        } while (continuationToken);
+      }
+
+      res.end();
+    } catch (error: any) {
+      logger.error('Error exporting projects', error);
+      if (res.headersSent) {
+        // Part of the export was already sent; abort so the client sees it as incomplete
+        return res.destroy(error);
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/tags:
+   *   get:
+   *     summary: Suggest tags of accessible projects for autocomplete
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: prefix
+   *         schema:
+   *           type: string
+   *         description: Case-insensitive start of the tag; all tags when empty
+   *       - in: query
+   *         name: client_name
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 10
+   *           maximum: 50
+   *     responses:
+   *       200:
+   *         description: Matching tags, most used first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/TagSuggestion'
+   *       400:
+   *         description: Invalid limit
+   *       401:
+   *         description: Unauthorized
+   */
+  router.get('/tags', verifyJWT, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix.trim() : '';
+    const clientName = typeof req.query.client_name === 'string' ? req.query.client_name : undefined;
+
+    const limit = req.query.limit === undefined ? DEFAULT_TAG_SUGGESTIONS : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TAG_SUGGESTIONS) {
+      return res.status(400).json({
+        error: 'invalid_query',
+        message: `limit must be an integer between 1 and ${MAX_TAG_SUGGESTIONS}`
+      });
+    }
+
+    try {
+      const access = await getCachedUserProjectAccess(authReq.user);
+
+      const projectIds = access
+        .filter(a => !clientName || a.client_name === clientName)
+        .map(a => a.projectId);
+      if (projectIds.length === 0) {
+        return res.json([]);
+      }
+
+      res.json(await projectRepo.getTagCounts(projectIds, prefix.toLowerCase(), limit));
+    } catch (error: any) {
+      logger.error('Error fetching tag suggestions', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/stats:
+   *   get:
+   *     summary: Count the caller's projects by buildingType, country, construction year and role
+   *     description: |
+   *       Aggregated in Cosmos DB with GROUP BY and cached per user. The cache is cleared with the
+   *       user's project list (membership changes, new projects); edits to project fields show up
+   *       after CACHE_TTL_PROJECT_STATS seconds at the latest.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Project counts, largest groups first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ProjectStats'
+   *       401:
+   *         description: Unauthorized
+   */
+  router.get('/stats', verifyJWT, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const userId = authReq.user.userId;
+
+    try {
+      const stats = await getCachedProjectStats(userId, async () => {
+        const access = await getCachedUserProjectAccess(authReq.user);
+
+        const roleCounts = new Map<string, number>();
+        for (const a of access) {
+          roleCounts.set(a.role, (roleCounts.get(a.role) || 0) + 1);
+        }
+        const byRole: ProjectCount[] = [...roleCounts.entries()]
+          .map(([role, count]) => ({ value: role, count }))
+          .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+        const counts = access.length > 0
+          ? await projectRepo.getProjectCounts(access.map(a => a.projectId))
+          : { total: 0, byBuildingType: [], byCountry: [], byConstructionYear: [] };
+
+        return { ...counts, byRole, generatedAt: new Date().toISOString() };
+      });
+
+      res.json(stats);
+    } catch (error: any) {
+      logger.error('Error computing project stats', error, { userId });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/templates:
+   *   get:
+   *     summary: List template projects of the clients the caller works on
+   *     description: Templates can be cloned by anyone with a project on the same client.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Template projects, by name
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/Project'
+   *       401:
+   *         description: Unauthorized
+   */
+  router.get('/templates', verifyJWT, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+
+    try {
+      const access = await getCachedUserProjectAccess(authReq.user);
+
+      const clientNames = [...new Set(access.map(a => a.client_name))];
+      if (clientNames.length === 0) {
+        return res.json([]);
+      }
+
+      res.json(await projectRepo.getTemplates(clientNames));
+    } catch (error: any) {
+      logger.error('Error fetching project templates', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/trash:
+   *   get:
+   *     summary: List projects in the trash that the caller may restore or purge (project:delete)
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Deleted projects, most recently deleted first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/TrashedProject'
+   *       401:
+   *         description: Unauthorized
+   */
+  router.get('/trash', verifyJWT, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+
+    try {
+      logger.info('Fetching trashed projects', { userId: authReq.user.userId });
+
+      const owned: CachedProjectAccess[] = [];
+      for (const m of await memberRepo.getUserDeletedProjects(authReq.user.userId)) {
+        if (await hasPermission(m.client_name, m.role, 'project:delete')) {
+          owned.push(m);
+        }
+      }
+
+      if (owned.length === 0) {
+        return res.json([]);
+      }
+
+      const projects = await projectRepo.getDeletedProjects(owned.map(m => m.projectId));
+
+      res.json(projects.map(project => ({
+        ...project,
+        purgeAt: new Date(Date.parse(project.deletedAt!) + (project.ttl || 0) * 1000).toISOString()
+      })));
+    } catch (error: any) {
+      logger.error('Error fetching trashed projects', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/{client_name}/{slug}/restore:
+   *   post:
+   *     summary: Restore a project from the trash
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
+   *       - in: path
+   *         name: client_name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Project restored
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Project'
+   *       403:
+   *         description: Insufficient permissions (project:delete required)
+   *       404:
+   *         description: Project not found in the trash
+   */
+  router.post('/:client_name/:slug/restore',
+    ...requireDeletedProjectAccess('project:delete') as any,
+    idempotent,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = req.params;
+
+      try {
+        const projectId = authReq.projectId!;
+
+        logger.info('Restoring project from trash', { client_name, slug, projectId });
+
+        await projectRepo.restorePartition(client_name, slug, projectId);
+
+        const [members, grants] = await Promise.all([
+          memberRepo.getProjectMembers(client_name, slug),
+          groupGrantRepo.getProjectGrants(client_name, slug)
+        ]);
+        await invalidateMemberCaches(projectId, members, grants);
+
+        const project = await projectRepo.getById(projectId, client_name, slug);
+
+        logger.info('Project restored', { client_name, slug, projectId });
+
+        setETag(res, project);
+        res.json(project);
+      } catch (error: any) {
+        logger.error('Error restoring project', error, {
+          client_name,
+          slug
+        });
+        res.status(500).json({ error: error.message });
+      }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/trash/{client_name}/{slug}:
+   *   delete:
+   *     summary: Permanently delete a project in the trash
+   *     description: Purges every document in the project's partition without waiting for the retention period.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: client_name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       204:
+   *         description: Project permanently deleted
+   *       403:
+   *         description: Insufficient permissions (project:delete required)
+   *       404:
+   *         description: Project not found in the trash
+   */
+  router.delete('/trash/:client_name/:slug',
+    ...requireDeletedProjectAccess('project:delete') as any,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = req.params;
+
+      try {
+        const projectId = authReq.projectId!;
+
+        logger.info('Purging project', { client_name, slug, projectId });
+
+        // Members and grants are read first so their cached access can be cleared afterwards
+        const [members, grants] = await Promise.all([
+          memberRepo.getProjectMembers(client_name, slug),
+          groupGrantRepo.getProjectGrants(client_name, slug)
+        ]);
+
+        await projectRepo.deletePartition(client_name, slug, projectId);
+        await invalidateMemberCaches(projectId, members, grants);
+
+        logger.info('Project purged', { client_name, slug, projectId });
+
+        res.status(204).send();
+      } catch (error: any) {
+        logger.error('Error purging project', error, {
+          client_name,
+          slug
+        });
+        res.status(500).json({ error: error.message });
+      }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/{client_name}/{slug}/status:
+   *   post:
+   *     summary: Move a project to another lifecycle status
+   *     description: |
+   *       Allowed transitions: draft → active or archived; active → on_hold or archived;
+   *       on_hold → active or archived; archived → active. Archived projects are read-only
+   *       for editors. Honours If-Match.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
+   *       - in: path
+   *         name: client_name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ProjectStatusChange'
+   *     responses:
+   *       200:
+   *         description: Status changed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Project'
+   *       400:
+   *         description: Invalid request body
+   *       403:
+   *         description: Insufficient permissions (project:status required)
+   *       409:
+   *         description: Transition not allowed from the current status
+   *       412:
+   *         description: Project was modified since the If-Match ETag was read
+   */
+  router.post('/:client_name/:slug/status',
+    ...requireProjectAccess('project:status') as any,
+    validateBody('ProjectStatusChange'),
+    idempotent,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = req.params;
+      const status = req.body.status as ProjectStatus;
+
+      try {
+        const projectId = authReq.projectId!;
+        const project = await projectRepo.getById(projectId, client_name, slug);
+        if (!project) {
+          return res.status(404).json({ error: 'project_not_found', message: 'Project not found' });
+        }
+
+        const current = getProjectStatus(project);
+        if (!canTransition(current, status)) {
+          return res.status(409).json({
+            error: 'invalid_transition',
+            message: `A ${current} project cannot be moved to ${status}`,
+            currentStatus: current,
+            allowed: getAllowedTransitions(current)
+          });
+        }
+
+        logger.info('Changing project status', { client_name, slug, projectId, from: current, to: status });
+
+        const now = new Date().toISOString();
+        const updated = await projectRepo.patch(projectId, client_name, slug, [
+          { op: 'set', path: '/status', value: status },
+          { op: 'set', path: '/statusChangedAt', value: now },
+          { op: 'set', path: '/statusChangedBy', value: authReq.user.userId },
+          { op: 'set', path: '/updatedAt', value: now }
+        ], {
+          ifMatch: getIfMatch(req) || project._etag,
+          editor: authReq.user
+        });
+
+        logger.info('Project status changed', { client_name, slug, projectId, status });
+
+        setETag(res, updated);
+        res.json(updated);
+      } catch (error: any) {
+        if (isPreconditionFailed(error)) {
+          return res.status(412).json({
+            error: 'precondition_failed',
+            message: 'Project was modified by another request. Fetch the latest version and retry.'
+          });
+        }
+        logger.error('Error changing project status', error, {
+          client_name,
+          slug
+        });
+        res.status(500).json({ error: error.message });
+      }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/{client_name}/{slug}/clone:
+   *   post:
+   *     summary: Clone a project under a new client_name/slug
+   *     description: |
+   *       Deep-copies the project, and optionally its floors with their structural layouts and
+   *       its member list. The caller becomes the only owner of the clone; copied owners become
+   *       editors. Members with project:read can clone the project; template projects
+   *       (isTemplate) can also be cloned by anyone with a project on the same client. Copying
+   *       the member list requires project:read on the source. The caller needs project:create
+   *       on the target client or a client admin grant there (see POST /api/projects).
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
+   *       - in: path
+   *         name: client_name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ProjectClone'
+   *     responses:
+   *       201:
+   *         description: Project cloned
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Project'
+   *       400:
+   *         description: Invalid request body
+   *       403:
+   *         description: No access to the project, or no project:create on the target client
+   *       404:
+   *         description: Project not found
+   *       409:
+   *         description: A project already exists at the new key, or its custom fields do not fit the target client
+   */
+  router.post('/:client_name/:slug/clone',
+    verifyJWT,
+    validateBody('ProjectClone'),
+    idempotent,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = req.params;
+      const { includeFloors = false, includeMembers = false } = req.body;
+      const target = { client_name: req.body.client_name as string, slug: req.body.slug as string };
+
+      try {
+        const userId = authReq.user.userId;
+
+        const source = await projectRepo.getProjectsByClientAndSlug(client_name, slug);
+        if (!source || source.deletedAt) {
+          return res.status(404).json({ error: 'project_not_found', message: 'Project not found' });
+        }
+
+        const access = await getCachedUserProjectAccess(authReq.user);
+        const sourceRole = access.find(a => a.projectId === source.id)?.role as ProjectRole | undefined;
+        const canRead = !!sourceRole && await hasPermission(client_name, sourceRole, 'project:read');
+        const isOnClient = access.some(a => a.client_name === source.client_name);
+
+        if (!canRead && !(source.isTemplate && isOnClient)) {
+          return res.status(403).json({
+            error: 'access_denied',
+            message: 'You do not have access to this project'
+          });
+        }
+        if (includeMembers && !canRead) {
+          return res.status(403).json({
+            error: 'insufficient_permissions',
+            message: 'Only project members can copy the member list'
+          });
+        }
+
+        const creation = await getProjectCreationAccess(authReq.user, target.client_name);
+        if (creation === 'denied') {
+          return sendProjectCreationDenied(res, target.client_name);
+        }
+
+        const existing = await projectRepo.getProjectsByClientAndSlug(target.client_name, target.slug);
+        if (existing) {
+          return res.status(409).json({
+            error: 'project_exists',
+            message: existing.deletedAt
+              ? 'A project with this client_name and slug is in the trash. Restore or purge it first.'
+              : 'A project with this client_name and slug already exists'
+          });
+        }
+
+        // Custom fields are defined per client, so a copy to another client must fit its definitions
+        if (target.client_name !== client_name) {
+          const fieldErrors = await checkProjectFields(target.client_name, { customFields: source.customFields }, false);
+          if (fieldErrors.length > 0) {
+            return sendCustomFieldsMismatch(res, target.client_name, fieldErrors);
+          }
+        }
+
+        logger.info('Cloning project', {
+          userId,
+          from: { client_name, slug },
+          to: target,
+          includeFloors,
+          includeMembers
+        });
+
+        const projectId = randomUUID();
+        const now = new Date().toISOString();
+
+        const copy: Record<string, any> = structuredClone(source);
+        for (const field of CLONE_EXCLUDED_FIELDS) {
+          delete copy[field];
+        }
+
+        const project: Omit<Project, 'docType'> = {
+          ...(copy as Project),
+          id: projectId,
+          client_name: target.client_name,
+          slug: target.slug,
+          name: req.body.name,
+          ownerId: userId,
+          createdAt: now,
+          updatedAt: now,
+          clonedFrom: { projectId: source.id, client_name, slug },
+          status: 'draft',
+          extra: {
+            ...source.extra,
+            // Floors point at their project through floorPartition
+            ...(source.extra?.floorPartition === source.id && { floorPartition: projectId })
+          }
+        };
+
+        // The caller is the clone's only owner; copied owners become editors
+        const sourceMembers = includeMembers ? await memberRepo.getProjectMembers(client_name, slug) : [];
+        const members: ProjectMember[] = sourceMembers
+          .filter(m => m.userId !== userId)
+          .map(m => ({ ...m, id: randomUUID(), projectId, role: m.role === 'owner' ? 'editor' : m.role }))
+          .concat({
+            id: randomUUID(),
+            docType: 'projectMember',
+            client_name: target.client_name,
+            slug: target.slug,
+            projectId,
+            userId,
+            email: authReq.user.email || 'unknown',
+            userName: authReq.user.name || 'Unknown',
+            role: 'owner'
+          });
+
+        const floorDocuments: Array<Record<string, any>> = [];
+        if (includeFloors) {
+          const documents = await projectRepo.getPartitionDocuments(
+            client_name,
+            slug,
+            [FLOOR_DOC_TYPE, STRUCTURAL_LAYOUT_DOC_TYPE]
+          );
+
+          // Floors get new ids, so layouts are re-pointed at the copied floor
+          const floorIds = new Map(
+            documents.filter(d => d.docType === FLOOR_DOC_TYPE).map(d => [d.id as string, randomUUID()])
+          );
+          for (const document of documents) {
+            if (document.docType === FLOOR_DOC_TYPE) {
+              floorDocuments.push({ ...(document as Floor), id: floorIds.get(document.id)! });
+            } else {
+              const layout = document as StructuralLayout;
+              floorDocuments.push({
+                ...layout,
+                id: randomUUID(),
+                floorId: floorIds.get(layout.floorId) ?? layout.floorId
+              });
+            }
+          }
+        }
+
+        const created = await projectRepo.createWithDocuments(
+          project,
+          [...floorDocuments, ...members],
+          { editor: authReq.user }
+        );
+        if (creation === 'new_client') {
+          await grantFirstClientAdmin(authReq.user, target.client_name);
+        }
+
+        await invalidateMemberCaches(projectId, members);
+
+        logger.info('Project cloned', {
+          projectId,
+          sourceProjectId: source.id,
+          members: members.length,
+          floorDocuments: floorDocuments.length
+        });
+
+        setETag(res, created);
+        res.status(201).json(created);
+      } catch (error: any) {
+        if (error.code === 409) {
+          return res.status(409).json({
+            error: 'project_exists',
+            message: 'The destination already contains documents'
+          });
+        }
+        logger.error('Error cloning project', error, {
+          client_name,
+          slug,
+          target
+        });
+        res.status(500).json({ error: error.message });
+      }
+  });
+
+  /**
+   * @swagger
+   * /api/projects/{client_name}/{slug}/move:
+   *   post:
+   *     summary: Move or rename a project
+   *     description: |
+   *       Moves the project and every document in its partition to a new client_name/slug.
+   *       The project keeps its id, so memberships and access are unchanged. Requests to the
+   *       old URL answer 308 with a Location under the new key.
+   *     tags: [Projects]
+   *     security:
+   *       - BearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
+   *       - in: path
+   *         name: client_name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: slug
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ProjectMove'
+   *     responses:
+   *       200:
+   *         description: Project moved
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Project'
+   *       400:
+   *         description: Invalid request body or unchanged key
+   *       403:
+   *         description: Insufficient permissions (project:move required), or project:create on the target client required
+   *       404:
+   *         description: Project not found
+   *       409:
+   *         description: A project already exists at the new key, its custom fields do not fit the target client, or the project changed during the move
+   */
+  router.post('/:client_name/:slug/move',
+    ...requireProjectAccess('project:move') as any,
+    validateBody('ProjectMove'),
+    idempotent,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = req.params;
+      const target = { client_name: req.body.client_name as string, slug: req.body.slug as string };
+
+      try {
+        const projectId = authReq.projectId!;
+
+        if (target.client_name === client_name && target.slug === slug) {
+          return res.status(400).json({
+            error: 'unchanged_key',
+            message: 'The project already has this client_name and slug'
+          });
+        }
+
+        const existing = await projectRepo.getProjectsByClientAndSlug(target.client_name, target.slug);
+        if (existing) {
+          return res.status(409).json({
+            error: 'project_exists',
+            message: existing.deletedAt
+              ? 'A project with this client_name and slug is in the trash. Restore or purge it first.'
+              : 'A project with this client_name and slug already exists'
+          });
+        }
+
+        const project = await projectRepo.getById(projectId, client_name, slug);
+        if (!project) {
+          return res.status(404).json({ error: 'project_not_found', message: 'Project not found' });
+        }
+
+        const creation = target.client_name !== client_name
+          ? await getProjectCreationAccess(authReq.user, target.client_name)
+          : 'allowed';
+        if (creation === 'denied') {
+          return sendProjectCreationDenied(res, target.client_name);
+        }
+
+        if (target.client_name !== client_name) {
+          const fieldErrors = await checkProjectFields(target.client_name, { customFields: project.customFields }, false);
+          if (fieldErrors.length > 0) {
+            return sendCustomFieldsMismatch(res, target.client_name, fieldErrors);
+          }
+        }
+
+        logger.info('Moving project', { projectId, from: { client_name, slug }, to: target });
+
+        const moved = await projectRepo.movePartition(
+          project,
+          target.client_name,
+          target.slug,
+          authReq.user.userId
+        );
+        if (creation === 'new_client') {
+          await grantFirstClientAdmin(authReq.user, target.client_name);
+        }
+
+        // Cached access and project lists still carry the old key
+        const [members, grants] = await Promise.all([
+          memberRepo.getProjectMembers(target.client_name, target.slug),
+          groupGrantRepo.getProjectGrants(target.client_name, target.slug)
+        ]);
+        await invalidateMemberCaches(projectId, members, grants);
+
+        logger.info('Project moved', { projectId, from: { client_name, slug }, to: target });
+
+        setETag(res, moved);
+        res.json(moved);
+      } catch (error: any) {
+        if (error.code === 409 || isPreconditionFailed(error)) {
+          return res.status(409).json({
+            error: 'move_conflict',
+            message: isPreconditionFailed(error)
+              ? 'The project was modified during the move. Please retry.'
+              : 'The destination already contains documents'
+          });
+        }
+        logger.error('Error moving project', error, {
+          client_name,
+          slug,
+          target
+        });
+        res.status(500).json({ error: error.message });
+      }
+  });
+
   return router;
 }
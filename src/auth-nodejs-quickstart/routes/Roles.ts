@@ -0,0 +1,358 @@
+import express, { Request, Response } from 'express';
+import { Container } from '@azure/cosmos';
+import { requireClientAccess, getCallerPermissions, AuthRequest } from '../utils/auth/AuthMiddleware';
+import { RoleDefinitionRepository, ROLES_PARTITION } from '../repositories/RoleDefinitionRepository';
+import { Permission, RoleDefinition } from '../models/RoleDefinition';
+import {
+  BUILT_IN_ROLES,
+  CLIENT_ADMIN_PERMISSIONS,
+  OWNER_ONLY_PERMISSIONS,
+  getRolePermissions,
+  isBuiltInRole
+} from '../utils/auth/Permissions';
+import { validateBody } from '../utils/validation/SchemaValidator';
+import { getIfMatch, isPreconditionFailed, setETag } from '../utils/http/ETag';
+import { idempotent } from '../utils/http/Idempotency';
+import { logger as rootLogger } from '../utils/telemetry/logger';
+
+const logger = rootLogger;
+
+const router = express.Router();
+
+let roleRepo: RoleDefinitionRepository;
+
+export function initRoleRoutes(container: Container) {
+  roleRepo = new RoleDefinitionRepository(container);
+  return router;
+}
+
+/**
+ * Permissions no custom role can have: owner-only ones, and those of client admins
+ */
+function isReservedPermission(permission: Permission): boolean {
+  return OWNER_ONLY_PERMISSIONS.includes(permission) || CLIENT_ADMIN_PERMISSIONS.includes(permission);
+}
+
+/**
+ * Permissions a custom role may not be given by the caller: reserved permissions, and any
+ * the caller does not hold themselves (roles:manage must not be a way to escalate)
+ */
+async function getDisallowedPermissions(authReq: AuthRequest, permissions: Permission[]): Promise<Permission[]> {
+  const held = await getCallerPermissions(authReq);
+  return permissions.filter(p => isReservedPermission(p) || !held.includes(p));
+}
+
+function sendDisallowedPermissions(res: Response, permissions: Permission[]) {
+  return res.status(403).json({
+    error: 'permission_not_grantable',
+    message: `These permissions cannot be given to a custom role by you: ${permissions.join(', ')}`,
+    permissions
+  });
+}
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/roles:
+ *   get:
+ *     summary: List the roles available on the projects of a client
+ *     description: The built-in roles owner, editor and viewer, followed by the client's custom roles by name.
+ *     tags: [Roles]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Roles with their permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RoleDefinition'
+ *       403:
+ *         description: The caller has no project on this client and is no admin of it
+ */
+router.get('/clients/:client_name/roles',
+  ...requireClientAccess('project:read') as any,
+  async (req: Request, res: Response) => {
+    const { client_name } = req.params;
+
+    try {
+      const builtIn = await Promise.all(BUILT_IN_ROLES.map(async name => ({
+        name,
+        permissions: await getRolePermissions(client_name, name),
+        builtIn: true
+      })));
+      const custom = await roleRepo.getDefinitions(client_name);
+
+      res.json([...builtIn, ...custom.map(definition => ({ ...definition, builtIn: false }))]);
+    } catch (error: any) {
+      logger.error('Error fetching role definitions', error, { client_name });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/roles:
+ *   post:
+ *     summary: Define a custom role for the projects of a client
+ *     description: |
+ *       The role can then be given to members, invitations and group grants of the client's
+ *       projects. It cannot include ownership:transfer, client admin permissions or permissions
+ *       the caller does not hold. Only client admins manage roles.
+ *     tags: [Roles]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RoleDefinitionCreate'
+ *     responses:
+ *       201:
+ *         description: Role defined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoleDefinition'
+ *       400:
+ *         description: Validation failed or the name is a built-in role
+ *       403:
+ *         description: Client admin required, or a permission cannot be granted
+ *       409:
+ *         description: A role with this name already exists
+ */
+router.post('/clients/:client_name/roles',
+  ...requireClientAccess('roles:manage') as any,
+  validateBody('RoleDefinitionCreate'),
+  idempotent,
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name } = req.params;
+    const { name, description, permissions } = req.body;
+
+    if (isBuiltInRole(name)) {
+      return res.status(400).json({
+        error: 'built_in_role',
+        message: `${name} is a built-in role and cannot be redefined`
+      });
+    }
+
+    try {
+      const disallowed = await getDisallowedPermissions(authReq, permissions);
+      if (disallowed.length > 0) {
+        return sendDisallowedPermissions(res, disallowed);
+      }
+
+      const now = new Date().toISOString();
+      const definition = await roleRepo.create({
+        id: name,
+        client_name,
+        slug: ROLES_PARTITION,
+        name,
+        ...(description !== undefined && { description }),
+        permissions,
+        createdAt: now,
+        createdBy: authReq.user.userId,
+        updatedAt: now
+      });
+
+      logger.info('Custom role defined', { client_name, name, permissions });
+
+      setETag(res, definition);
+      res.status(201).json({ ...definition, builtIn: false });
+    } catch (error: any) {
+      if (error.code === 409) {
+        return res.status(409).json({
+          error: 'role_exists',
+          message: `Role ${name} is already defined for ${client_name}`
+        });
+      }
+      logger.error('Error creating role definition', error, { client_name, name });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/roles/{name}:
+ *   put:
+ *     summary: Update a custom role
+ *     description: The name cannot be changed. Changed permissions apply to everyone holding the role right away.
+ *     tags: [Roles]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RoleDefinitionUpdate'
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoleDefinition'
+ *       400:
+ *         description: Validation failed or the role is built-in
+ *       403:
+ *         description: Client admin required, or a permission cannot be granted
+ *       404:
+ *         description: Role not found
+ *       412:
+ *         description: Role was modified since the If-Match ETag was read
+ */
+router.put('/clients/:client_name/roles/:name',
+  ...requireClientAccess('roles:manage') as any,
+  validateBody('RoleDefinitionUpdate'),
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    const { client_name, name } = req.params;
+
+    if (isBuiltInRole(name)) {
+      return res.status(400).json({
+        error: 'built_in_role',
+        message: `${name} is a built-in role and cannot be changed`
+      });
+    }
+
+    try {
+      const existing = await roleRepo.getDefinition(client_name, name);
+      if (!existing) {
+        return res.status(404).json({ error: 'role_not_found', message: 'Role not found' });
+      }
+
+      if (req.body.permissions) {
+        // Permissions the role already had may stay, even if the caller does not hold them
+        const disallowed = (await getDisallowedPermissions(authReq, req.body.permissions))
+          .filter(p => !existing.permissions.includes(p) || isReservedPermission(p));
+        if (disallowed.length > 0) {
+          return sendDisallowedPermissions(res, disallowed);
+        }
+      }
+
+      const updates: Partial<RoleDefinition> = { ...req.body, updatedAt: new Date().toISOString() };
+      const definition = await roleRepo.update(name, client_name, ROLES_PARTITION, updates, {
+        ifMatch: getIfMatch(req)
+      });
+
+      logger.info('Custom role updated', { client_name, name, fields: Object.keys(req.body) });
+
+      setETag(res, definition);
+      res.json({ ...definition, builtIn: false });
+    } catch (error: any) {
+      if (isPreconditionFailed(error)) {
+        return res.status(412).json({
+          error: 'precondition_failed',
+          message: 'Role was modified by another request. Fetch the latest version and retry.'
+        });
+      }
+      logger.error('Error updating role definition', error, { client_name, name });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/clients/{client_name}/roles/{name}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: Only roles that no member, group grant, pending invitation or pending access request of the client's projects uses.
+ *     tags: [Roles]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: client_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Role deleted
+ *       400:
+ *         description: The role is built-in
+ *       403:
+ *         description: Client admin required
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: The role is still assigned
+ */
+router.delete('/clients/:client_name/roles/:name',
+  ...requireClientAccess('roles:manage') as any,
+  async (req: Request, res: Response) => {
+    const { client_name, name } = req.params;
+
+    if (isBuiltInRole(name)) {
+      return res.status(400).json({
+        error: 'built_in_role',
+        message: `${name} is a built-in role and cannot be deleted`
+      });
+    }
+
+    try {
+      const assignments = await roleRepo.countAssignments(client_name, name);
+      if (assignments > 0) {
+        return res.status(409).json({
+          error: 'role_in_use',
+          message: `Role ${name} is assigned ${assignments} time(s); change those assignments first`,
+          assignments
+        });
+      }
+
+      await roleRepo.deleteDefinition(client_name, name);
+
+      logger.info('Custom role deleted', { client_name, name });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === 404) {
+        return res.status(404).json({ error: 'role_not_found', message: 'Role not found' });
+      }
+      logger.error('Error deleting role definition', error, { client_name, name });
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
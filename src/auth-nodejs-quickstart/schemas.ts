@@ -0,0 +1,972 @@
+// OpenAPI component schemas.
+// Shared by the Swagger documentation and request validation so the two cannot drift.
+
+const projectRole = {
+  type: 'string',
+  pattern: '^[a-z][a-z0-9-]{0,63}$',
+  description: 'User role in project: owner, editor, viewer or a custom role of the client',
+};
+
+const permission = {
+  type: 'string',
+  enum: [
+    'project:read',
+    'project:create',
+    'project:update',
+    'project:delete',
+    'project:status',
+    'project:move',
+    'history:read',
+    'history:revert',
+    'members:read',
+    'members:manage',
+    'ownership:transfer',
+    'customFields:manage',
+    'clientAdmins:manage',
+    'roles:manage',
+    'layout:edit',
+    'comments:write',
+  ],
+};
+
+// Fields of a custom role a client may set
+const roleDefinitionFields = {
+  description: {
+    type: 'string',
+    maxLength: 500,
+  },
+  permissions: {
+    type: 'array',
+    items: permission,
+    uniqueItems: true,
+    description: 'Permissions granted by the role; ownership:transfer is reserved for owners, customFields:manage, clientAdmins:manage and roles:manage for client admins',
+  },
+};
+
+// Fields a client may set on a project (partition key fields excluded)
+const projectFields = {
+  name: {
+    type: 'string',
+    minLength: 1,
+    description: 'Project name',
+  },
+  projectNumber: {
+    type: 'string',
+    minLength: 1,
+    description: 'Project number',
+  },
+  address: {
+    type: 'string',
+    description: 'Project address',
+  },
+  icon: {
+    type: 'string',
+    description: 'Project icon',
+  },
+  lat: {
+    type: 'number',
+    minimum: -90,
+    maximum: 90,
+    description: 'Latitude',
+  },
+  lon: {
+    type: 'number',
+    minimum: -180,
+    maximum: 180,
+    description: 'Longitude',
+  },
+  client: {
+    type: 'string',
+    description: 'Client information',
+  },
+  author: {
+    type: 'string',
+    description: 'Project author',
+  },
+  buildingType: {
+    type: 'string',
+    description: 'Type of building',
+  },
+  constructionDate: {
+    type: 'string',
+    description: 'Construction date',
+  },
+  country: {
+    type: 'string',
+    description: 'Country code',
+  },
+  isTemplate: {
+    type: 'boolean',
+    description: 'Anyone with a project on the same client can clone this project',
+  },
+  details: {
+    $ref: '#/components/schemas/ProjectDetails',
+  },
+  extra: {
+    $ref: '#/components/schemas/ProjectExtra',
+  },
+  tags: {
+    type: 'array',
+    items: { type: 'string', minLength: 1, maxLength: 50 },
+    description: 'Free-form tags, stored trimmed, lower-cased and without duplicates',
+  },
+  customFields: {
+    type: 'object',
+    description: 'Values of the client\'s custom fields, keyed by field key (see /api/clients/{client_name}/custom-fields)',
+  },
+};
+
+const partitionKeyFields = {
+  client_name: {
+    type: 'string',
+    minLength: 1,
+    pattern: '^[^_]',
+    description: 'Client name (partition key part 1); cannot start with _',
+  },
+  slug: {
+    type: 'string',
+    minLength: 1,
+    pattern: '^[^_]',
+    description: 'Project slug (partition key part 2); cannot start with _',
+  },
+};
+
+// Fields a client may set on a project member
+const memberFields = {
+  userId: {
+    type: 'string',
+    minLength: 1,
+    description: 'User ID from Microsoft Entra ID',
+  },
+  email: {
+    type: 'string',
+    format: 'email',
+    description: 'User email',
+  },
+  userName: {
+    type: 'string',
+    description: 'User display name',
+  },
+  role: projectRole,
+  validFrom: {
+    type: 'string',
+    format: 'date-time',
+    description: 'No access before this time',
+  },
+  expiresAt: {
+    type: 'string',
+    format: 'date-time',
+    description: 'Access ends at this time and the membership is removed; not allowed for owners',
+  },
+};
+
+const customFieldKey = {
+  type: 'string',
+  pattern: '^[A-Za-z][A-Za-z0-9_]{0,63}$',
+  description: 'Key of the value in Project.customFields',
+};
+
+// Fields a client may set on a custom field definition
+const customFieldFields = {
+  label: {
+    type: 'string',
+    minLength: 1,
+    description: 'Display name',
+  },
+  description: {
+    type: 'string',
+  },
+  type: {
+    type: 'string',
+    enum: ['string', 'number', 'boolean', 'date'],
+    description: 'Value type; dates are YYYY-MM-DD strings',
+  },
+  required: {
+    type: 'boolean',
+    description: 'Every project of the client must have a value',
+  },
+  values: {
+    type: 'array',
+    items: {},
+    description: 'Allowed values (enum); any value of the type when missing',
+  },
+};
+
+export const schemas: Record<string, any> = {
+  Project: {
+    type: 'object',
+    required: ['client_name', 'slug', 'name'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier',
+      },
+      ...partitionKeyFields,
+      ...projectFields,
+      ownerId: {
+        type: 'string',
+        description: 'User ID of the creator, or of the member ownership was last transferred to',
+      },
+      createdAt: {
+        type: 'string',
+        format: 'date-time',
+      },
+      updatedAt: {
+        type: 'string',
+        format: 'date-time',
+      },
+      revision: {
+        type: 'integer',
+        description: 'Latest revision number (see /history)',
+      },
+      status: {
+        type: 'string',
+        enum: ['draft', 'active', 'on_hold', 'archived'],
+        description: 'Lifecycle status; missing means active. Change it with POST .../status',
+      },
+      statusChangedAt: {
+        type: 'string',
+        format: 'date-time',
+      },
+      statusChangedBy: {
+        type: 'string',
+        description: 'User ID of whoever last changed the status',
+      },
+      clonedFrom: {
+        type: 'object',
+        description: 'Project this one was cloned from',
+        properties: {
+          projectId: { type: 'string' },
+          client_name: { type: 'string' },
+          slug: { type: 'string' },
+        },
+      },
+    },
+  },
+  TrashedProject: {
+    allOf: [
+      { $ref: '#/components/schemas/Project' },
+      {
+        type: 'object',
+        properties: {
+          deletedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          deletedBy: {
+            type: 'string',
+            description: 'User ID of the owner who deleted the project',
+          },
+          purgeAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the project will be permanently deleted',
+          },
+        },
+      },
+    ],
+  },
+  ProjectCreate: {
+    type: 'object',
+    required: ['client_name', 'slug', 'name', 'projectNumber'],
+    additionalProperties: false,
+    properties: {
+      ...partitionKeyFields,
+      ...projectFields,
+    },
+  },
+  ProjectUpdate: {
+    type: 'object',
+    additionalProperties: false,
+    properties: projectFields,
+  },
+  ProjectDetails: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      projectNumber: { type: 'string' },
+      name: { type: 'string' },
+      client: { type: 'string' },
+      author: { type: 'string' },
+      constructionDate: { type: 'string' },
+      country: { type: 'string' },
+      buildingType: { type: 'string' },
+      authorEmail: { type: 'string', format: 'email' },
+    },
+  },
+  ProjectExtra: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      floorPartition: { type: 'string' },
+      location: { type: 'string' },
+      uploads: { type: 'string' },
+    },
+  },
+  ProjectPage: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          allOf: [
+            { $ref: '#/components/schemas/Project' },
+            {
+              type: 'object',
+              properties: {
+                role: {
+                  ...projectRole,
+                  description: 'Caller role in project (built-in or custom)',
+                },
+                favorite: {
+                  type: 'boolean',
+                  description: 'Project is in the caller\'s favorites',
+                },
+              },
+            },
+          ],
+        },
+      },
+      continuationToken: {
+        type: 'string',
+        nullable: true,
+        description: 'Opaque token for the next page, null when there are no more results',
+      },
+    },
+  },
+  ProjectFeatureCollection: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['FeatureCollection'],
+      },
+      features: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['Feature'],
+            },
+            geometry: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['Point'] },
+                coordinates: {
+                  type: 'array',
+                  items: { type: 'number' },
+                  description: '[longitude, latitude]',
+                },
+              },
+            },
+            properties: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                client_name: { type: 'string' },
+                slug: { type: 'string' },
+                name: { type: 'string' },
+                buildingType: { type: 'string' },
+                role: projectRole,
+                distance: { type: 'number', description: 'Meters from the search point (radius search only)' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ProjectMember: {
+    type: 'object',
+    required: ['userId', 'email', 'userName', 'role'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier',
+      },
+      ...partitionKeyFields,
+      projectId: {
+        type: 'string',
+      },
+      ...memberFields,
+      active: {
+        type: 'boolean',
+        description: 'The membership is within its access period',
+      },
+      expiresInSeconds: {
+        type: 'integer',
+        description: 'Seconds until expiresAt (time-limited memberships only)',
+      },
+    },
+  },
+  ProjectMemberCreate: {
+    type: 'object',
+    required: ['userId', 'email', 'role'],
+    additionalProperties: false,
+    properties: memberFields,
+  },
+  ProjectMemberBatch: {
+    type: 'object',
+    required: ['operations'],
+    additionalProperties: false,
+    properties: {
+      operations: {
+        type: 'array',
+        description: 'At most 50 operations, one per user',
+        items: {
+          type: 'object',
+          required: ['op', 'userId'],
+          additionalProperties: false,
+          properties: {
+            op: { type: 'string', enum: ['add', 'update', 'remove'] },
+            userId: memberFields.userId,
+            email: { ...memberFields.email, description: 'User email (add only, required)' },
+            userName: { ...memberFields.userName, description: 'User display name (add only)' },
+            role: { ...projectRole, description: 'Role (required for add)' },
+            validFrom: { ...memberFields.validFrom, nullable: true },
+            expiresAt: { ...memberFields.expiresAt, nullable: true },
+          },
+        },
+      },
+    },
+  },
+  ProjectMemberBatchReport: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'object',
+        additionalProperties: { type: 'integer' },
+        description: 'Number of operations per status',
+      },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', description: '0-based position in operations' },
+            op: { type: 'string', enum: ['add', 'update', 'remove'] },
+            userId: { type: 'string' },
+            status: {
+              type: 'string',
+              enum: ['added', 'updated', 'removed', 'invalid', 'not_found', 'conflict', 'forbidden', 'failed'],
+            },
+            message: { type: 'string' },
+            details: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+            member: { $ref: '#/components/schemas/ProjectMember' },
+          },
+        },
+      },
+    },
+  },
+  ProjectInvitation: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier',
+      },
+      ...partitionKeyFields,
+      projectId: {
+        type: 'string',
+      },
+      email: {
+        type: 'string',
+        format: 'email',
+        description: 'Invited address, lower-cased; matched against the email in the token',
+      },
+      role: projectRole,
+      status: {
+        type: 'string',
+        enum: ['pending', 'accepted', 'declined', 'revoked', 'expired'],
+      },
+      invitedBy: {
+        type: 'string',
+        description: 'User ID of the owner who sent the invitation',
+      },
+      invitedByName: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      expiresAt: { type: 'string', format: 'date-time' },
+      respondedAt: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When the invitation was accepted, declined or revoked',
+      },
+      respondedBy: { type: 'string' },
+      projectName: {
+        type: 'string',
+        description: 'Only in GET /api/invitations',
+      },
+    },
+  },
+  ProjectInvitationCreate: {
+    type: 'object',
+    required: ['email', 'role'],
+    additionalProperties: false,
+    properties: {
+      email: memberFields.email,
+      role: projectRole,
+    },
+  },
+  ProjectAccessRequest: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier',
+      },
+      ...partitionKeyFields,
+      projectId: {
+        type: 'string',
+      },
+      userId: {
+        type: 'string',
+        description: 'User ID of the requester',
+      },
+      email: { type: 'string', format: 'email' },
+      userName: { type: 'string' },
+      role: projectRole,
+      message: {
+        type: 'string',
+        description: 'Why the requester needs access',
+      },
+      status: {
+        type: 'string',
+        enum: ['pending', 'approved', 'rejected'],
+      },
+      createdAt: { type: 'string', format: 'date-time' },
+      respondedAt: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When the request was approved or rejected',
+      },
+      respondedBy: { type: 'string' },
+      responseMessage: { type: 'string' },
+    },
+  },
+  ProjectAccessRequestCreate: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      role: {
+        ...projectRole,
+        description: 'Requested role; defaults to viewer',
+      },
+      message: { type: 'string', maxLength: 1000 },
+    },
+  },
+  ProjectAccessRequestApproval: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      role: {
+        ...projectRole,
+        description: 'Role to grant instead of the requested one',
+      },
+      message: { type: 'string', maxLength: 1000 },
+    },
+  },
+  ProjectAccessRequestRejection: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      message: { type: 'string', maxLength: 1000 },
+    },
+  },
+  ProjectMemberRoleUpdate: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      role: projectRole,
+      validFrom: { ...memberFields.validFrom, nullable: true },
+      expiresAt: { ...memberFields.expiresAt, nullable: true },
+    },
+  },
+  ProjectGroupGrant: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier',
+      },
+      ...partitionKeyFields,
+      projectId: {
+        type: 'string',
+      },
+      groupId: {
+        type: 'string',
+        description: 'Object ID of the Entra group',
+      },
+      displayName: {
+        type: 'string',
+      },
+      role: projectRole,
+      grantedBy: {
+        type: 'string',
+        description: 'User ID of the owner who last changed the grant',
+      },
+      grantedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  ProjectGroupGrantUpdate: {
+    type: 'object',
+    required: ['role'],
+    additionalProperties: false,
+    properties: {
+      role: projectRole,
+      displayName: {
+        type: 'string',
+        maxLength: 256,
+        description: 'Name of the group, for display only',
+      },
+    },
+  },
+  ProjectOwnershipTransfer: {
+    type: 'object',
+    required: ['userId'],
+    additionalProperties: false,
+    properties: {
+      userId: {
+        ...memberFields.userId,
+        description: 'User ID of the member who becomes owner',
+      },
+      previousOwnerRole: {
+        ...projectRole,
+        description: 'Role the caller keeps: built-in or a custom role of the client; defaults to editor',
+      },
+    },
+  },
+  FieldChange: {
+    type: 'object',
+    required: ['path'],
+    properties: {
+      path: {
+        type: 'string',
+        description: 'JSON Pointer of the changed field',
+      },
+      before: {
+        description: 'Previous value; absent if the field was added',
+      },
+      after: {
+        description: 'New value; absent if the field was removed',
+      },
+    },
+  },
+  ProjectRevisionSummary: {
+    type: 'object',
+    properties: {
+      revision: { type: 'integer' },
+      action: { type: 'string', enum: ['create', 'update', 'revert'] },
+      revertedTo: { type: 'integer' },
+      changedFields: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      editor: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+          email: { type: 'string' },
+          name: { type: 'string' },
+        },
+      },
+      createdAt: {
+        type: 'string',
+        format: 'date-time',
+      },
+    },
+  },
+  ProjectRevisionPage: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: { $ref: '#/components/schemas/ProjectRevisionSummary' },
+      },
+      continuationToken: {
+        type: 'string',
+        nullable: true,
+      },
+    },
+  },
+  ProjectRevisionDiff: {
+    allOf: [
+      { $ref: '#/components/schemas/ProjectRevisionSummary' },
+      {
+        type: 'object',
+        properties: {
+          changes: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/FieldChange' },
+          },
+        },
+      },
+    ],
+  },
+  ProjectClone: {
+    type: 'object',
+    required: ['client_name', 'slug', 'name'],
+    additionalProperties: false,
+    properties: {
+      ...partitionKeyFields,
+      name: projectFields.name,
+      includeFloors: {
+        type: 'boolean',
+        description: 'Also copy floors and their structural layouts (default false)',
+      },
+      includeMembers: {
+        type: 'boolean',
+        description: 'Also copy the member list; the caller stays the only owner, copied owners become editors (default false)',
+      },
+    },
+  },
+  ProjectImportReport: {
+    type: 'object',
+    properties: {
+      dryRun: { type: 'boolean' },
+      summary: {
+        type: 'object',
+        additionalProperties: { type: 'integer' },
+        description: 'Number of rows per status',
+      },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            row: { type: 'integer', description: '1-based data row' },
+            client_name: { type: 'string' },
+            slug: { type: 'string' },
+            id: { type: 'string', description: 'Project id (not set for dry-run creates)' },
+            status: {
+              type: 'string',
+              enum: ['created', 'updated', 'skipped', 'invalid', 'conflict', 'forbidden', 'failed'],
+            },
+            message: { type: 'string' },
+            details: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ProjectStatusChange: {
+    type: 'object',
+    required: ['status'],
+    additionalProperties: false,
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['draft', 'active', 'on_hold', 'archived'],
+      },
+    },
+  },
+  ProjectMove: {
+    type: 'object',
+    required: ['client_name', 'slug'],
+    additionalProperties: false,
+    properties: partitionKeyFields,
+  },
+  CustomFieldDefinition: {
+    type: 'object',
+    properties: {
+      ...customFieldFields,
+      key: customFieldKey,
+      client_name: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      createdBy: { type: 'string', description: 'User ID of whoever defined the field' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  CustomFieldDefinitionCreate: {
+    type: 'object',
+    required: ['key', 'label', 'type'],
+    additionalProperties: false,
+    properties: {
+      key: customFieldKey,
+      ...customFieldFields,
+    },
+  },
+  CustomFieldDefinitionUpdate: {
+    type: 'object',
+    additionalProperties: false,
+    properties: customFieldFields,
+  },
+  ClientAdmin: {
+    type: 'object',
+    properties: {
+      client_name: { type: 'string' },
+      userId: memberFields.userId,
+      email: memberFields.email,
+      userName: memberFields.userName,
+      grantedAt: { type: 'string', format: 'date-time' },
+      grantedBy: {
+        type: 'string',
+        description: 'User ID of the admin who granted it; the creator of the first project grants it to themselves',
+      },
+    },
+  },
+  ClientAdminCreate: {
+    type: 'object',
+    required: ['userId', 'email'],
+    additionalProperties: false,
+    properties: {
+      userId: memberFields.userId,
+      email: memberFields.email,
+      userName: memberFields.userName,
+    },
+  },
+  RoleDefinition: {
+    type: 'object',
+    properties: {
+      name: projectRole,
+      ...roleDefinitionFields,
+      builtIn: { type: 'boolean', description: 'owner, editor and viewer; cannot be changed' },
+      client_name: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      createdBy: { type: 'string', description: 'User ID of whoever defined the role' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  RoleDefinitionCreate: {
+    type: 'object',
+    required: ['name', 'permissions'],
+    additionalProperties: false,
+    properties: {
+      name: projectRole,
+      ...roleDefinitionFields,
+    },
+  },
+  RoleDefinitionUpdate: {
+    type: 'object',
+    additionalProperties: false,
+    properties: roleDefinitionFields,
+  },
+  ProjectCount: {
+    type: 'object',
+    properties: {
+      value: { type: 'string', nullable: true, description: 'Group value; null for projects without one' },
+      count: { type: 'integer' },
+    },
+  },
+  ProjectStats: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer', description: 'Number of projects the caller belongs to' },
+      byBuildingType: { type: 'array', items: { $ref: '#/components/schemas/ProjectCount' } },
+      byCountry: { type: 'array', items: { $ref: '#/components/schemas/ProjectCount' } },
+      byConstructionYear: { type: 'array', items: { $ref: '#/components/schemas/ProjectCount' } },
+      byRole: { type: 'array', items: { $ref: '#/components/schemas/ProjectCount' } },
+      generatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  Me: {
+    type: 'object',
+    properties: {
+      user: {
+        type: 'object',
+        description: 'User from the access token',
+        properties: {
+          userId: { type: 'string', description: 'Entra object ID (oid)' },
+          email: { type: 'string' },
+          name: { type: 'string' },
+          tenantId: { type: 'string' },
+          groups: { type: 'array', items: { type: 'string' }, description: 'Group object IDs from the groups claim' },
+          groupsOverage: { type: 'boolean', description: 'Groups are looked up in Microsoft Graph' },
+        },
+      },
+      projects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            projectId: { type: 'string' },
+            ...partitionKeyFields,
+            role: projectRole,
+            permissions: { type: 'array', items: permission },
+            expiresAt: { type: 'string', format: 'date-time', description: 'End of a time-limited membership' },
+          },
+        },
+      },
+    },
+  },
+  MyProjectAccess: {
+    type: 'object',
+    properties: {
+      projectId: { type: 'string' },
+      ...partitionKeyFields,
+      role: projectRole,
+      permissions: { type: 'array', items: permission },
+      readOnly: { type: 'boolean', description: 'The project is archived; content permissions do not apply' },
+      membership: {
+        allOf: [{ $ref: '#/components/schemas/ProjectMember' }],
+        nullable: true,
+        description: 'The caller\'s own membership; null for access through groups only',
+      },
+    },
+  },
+  FavoriteProject: {
+    allOf: [
+      { $ref: '#/components/schemas/Project' },
+      {
+        type: 'object',
+        properties: {
+          role: projectRole,
+          favorite: { type: 'boolean' },
+          addedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    ],
+  },
+  RecentProject: {
+    allOf: [
+      { $ref: '#/components/schemas/Project' },
+      {
+        type: 'object',
+        properties: {
+          role: projectRole,
+          favorite: { type: 'boolean', description: 'Project is in the caller\'s favorites' },
+          viewedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    ],
+  },
+  TagSuggestion: {
+    type: 'object',
+    properties: {
+      tag: { type: 'string' },
+      count: { type: 'integer', description: 'Number of accessible projects with the tag' },
+    },
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      error: {
+        type: 'string',
+        description: 'Error code',
+      },
+      message: {
+        type: 'string',
+        description: 'Error message',
+      },
+    },
+  },
+};
@@ -3,6 +3,7 @@ import { DefaultAzureCredential } from '@azure/identity';
 import * as dotenv from 'dotenv';
 import { ProjectRepository } from '../repositories/ProjectRepository';
 import { ProjectMemberRepository } from '../repositories/ProjectMemberRepository';
+import { ClientAdminRepository, CLIENT_ADMINS_PARTITION } from '../repositories/ClientAdminRepository';
 import { Project } from '../models/Project';
 import { randomUUID } from 'crypto';
 
@@ -75,6 +76,7 @@ async function seed() {
 
   const projectRepo = new ProjectRepository(container);
   const memberRepo = new ProjectMemberRepository(container);
+  const clientAdminRepo = new ClientAdminRepository(container);
 
   // Sample Project Data
   const projectId = randomUUID()
@@ -151,6 +153,24 @@ async function seed() {
           throw error;
         }
       }
+
+      // 3. Make the owner an admin of the client
+      console.log(`Making ${ownerName} an admin of ${project.client_name}...`);
+      if (await clientAdminRepo.getAdmin(project.client_name, ownerId)) {
+        console.log('Client admin already exists, skipping.');
+      } else {
+        await clientAdminRepo.create({
+          id: ownerId,
+          client_name: project.client_name,
+          slug: CLIENT_ADMINS_PARTITION,
+          userId: ownerId,
+          email: ownerEmail,
+          userName: ownerName,
+          grantedAt: now,
+          grantedBy: ownerId
+        });
+        console.log('✅ Client admin added');
+      }
     }
 
     console.log('\n✨ Seeding completed successfully!');
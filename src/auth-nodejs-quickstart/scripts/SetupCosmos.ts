@@ -1,6 +1,7 @@
-import { CosmosClient, PartitionKeyDefinitionVersion, PartitionKeyKind } from '@azure/cosmos';
+import { CosmosClient, IndexingPolicy, PartitionKeyDefinitionVersion, PartitionKeyKind, SpatialIndex, SpatialType } from '@azure/cosmos';
 import { DefaultAzureCredential } from '@azure/identity';
 import * as dotenv from 'dotenv';
+import { isValidCoordinate, toGeoPoint } from '../utils/geo/GeoJson';
 
 dotenv.config();
 
@@ -35,6 +36,17 @@ async function setup() {
 
     // 2. Create Container with Hierarchical Partition Key
     console.log(`\n2️⃣  Creating Container '${containerId}' if not exists...`);
+    // Spatial index on project location enables ST_DISTANCE / ST_WITHIN queries
+    // (boundingBox only applies to geometry indexes, so it is omitted for geography)
+    const spatialIndex = { path: '/location/*', types: [SpatialType.Point] } as SpatialIndex;
+    const indexingPolicy: IndexingPolicy = {
+      indexingMode: 'consistent',
+      automatic: true,
+      includedPaths: [{ path: '/*' }],
+      excludedPaths: [{ path: '/"_etag"/?' }],
+      spatialIndexes: [spatialIndex]
+    };
+
     // Note: We use Hierarchical Partition Keys based on the repository usage: [client_name, slug]
     const containerDefinition = {
       id: containerId,
@@ -43,6 +55,9 @@ async function setup() {
         version: PartitionKeyDefinitionVersion.V2,
         kind: PartitionKeyKind.MultiHash,
       },
+      indexingPolicy,
+      // Enables per-item TTL (used to purge soft-deleted projects) without expiring anything by default
+      defaultTtl: -1,
     }
     const { container } = await database.containers.createIfNotExists(containerDefinition);
     console.log(container.id);
@@ -50,6 +65,47 @@ async function setup() {
     console.log('   ✓ Container ready');
     console.log('   ✓ Partition Key: [/client_name, /slug]');
 
+    // 3. Bring containers created before these settings were added up to date
+    console.log(`\n3️⃣  Checking container settings...`);
+    const { resource: definition } = await container.read();
+    const hasSpatialIndex = definition?.indexingPolicy?.spatialIndexes?.some(i => i.path === spatialIndex.path);
+    const hasTtl = definition?.defaultTtl !== undefined;
+    if (definition && (!hasSpatialIndex || !hasTtl)) {
+      await container.replace({
+        ...definition,
+        indexingPolicy: {
+          ...definition.indexingPolicy,
+          spatialIndexes: hasSpatialIndex
+            ? definition.indexingPolicy?.spatialIndexes
+            : [...(definition.indexingPolicy?.spatialIndexes || []), spatialIndex]
+        },
+        defaultTtl: hasTtl ? definition.defaultTtl : -1
+      });
+    }
+    console.log(`   ✓ Spatial index ${hasSpatialIndex ? 'present' : 'added'} on /location`);
+    console.log(`   ✓ Per-item TTL ${hasTtl ? 'enabled' : 'enabled (defaultTtl: -1)'}`);
+
+    // 4. Projects written before location was introduced are invisible to geo search
+    console.log(`\n4️⃣  Backfilling project locations...`);
+    const { resources: unlocated } = await container.items
+      .query<{ id: string; client_name: string; slug: string; lat: number; lon: number }>({
+        query: `
+          SELECT c.id, c.client_name, c.slug, c.lat, c.lon FROM c
+          WHERE c.docType = "project"
+          AND NOT IS_DEFINED(c.location)
+          AND IS_NUMBER(c.lat) AND IS_NUMBER(c.lon)
+        `
+      })
+      .fetchAll();
+    let backfilled = 0;
+    for (const project of unlocated.filter(p => isValidCoordinate(p.lat, p.lon))) {
+      await container.item(project.id, [project.client_name, project.slug]).patch([
+        { op: 'add', path: '/location', value: toGeoPoint(project.lat, project.lon) }
+      ]);
+      backfilled++;
+    }
+    console.log(`   ✓ Location added to ${backfilled} project(s)`);
+
     console.log('\n✨ Setup completed successfully!');
 
   } catch (error: any) {
@@ -3,22 +3,89 @@ import { Container } from '@azure/cosmos';
 import { validateAccessToken } from './JWTValidation';
 import { ProjectMemberRepository } from '../../repositories/ProjectMemberRepository';
 import { ProjectRepository } from '../../repositories/ProjectRepository';
-import { getCachedProjectAccess } from '../cache/CacheHelpers';
-import { ProjectRole, TokenUser } from '../../models/ProjectMember';
+import { ProjectGroupGrantRepository } from '../../repositories/ProjectGroupGrantRepository';
+import { ProjectAccessRequestRepository } from '../../repositories/ProjectAccessRequestRepository';
+import { ClientAdminRepository, CLIENT_ADMINS_PARTITION } from '../../repositories/ClientAdminRepository';
+import { getCachedProjectAccess, getCachedUserProjects, trackGroupMembers } from '../cache/CacheHelpers';
+import { CachedProjectAccess, ProjectRole, TokenUser } from '../../models/ProjectMember';
+import { ProjectStatus } from '../../models/Project';
+import { getProjectStatus, isReadOnlyStatus } from '../lifecycle/ProjectLifecycle';
+import { claimPendingInvitations } from './Invitations';
+import { getUserGroups } from './Groups';
+import { isMembershipActive } from './Memberships';
+import {
+  CLIENT_ADMIN_PERMISSIONS,
+  CONTENT_PERMISSIONS,
+  getClientPermissions,
+  isKnownRole,
+  isRoleCoveredBy,
+  pickHighestRole
+} from './Permissions';
+import { Permission } from '../../models/RoleDefinition';
 import { logger } from '../telemetry/logger';
 
 export interface AuthRequest extends Request {
   user: TokenUser;
   userRole?: ProjectRole;
+  clientName?: string;     // Client the role applies to (project or client routes)
   projectId?: string;
+  projectStatus?: ProjectStatus;
+  clientAdmin?: boolean;   // Caller holds a client admin grant (client routes)
 }
 
+// Whether a user may create a project under a client; see getProjectCreationAccess
+export type ProjectCreationAccess = 'allowed' | 'new_client' | 'denied';
+
 let projectMemberRepo: ProjectMemberRepository;
 let projectRepo: ProjectRepository;
+let groupGrantRepo: ProjectGroupGrantRepository;
+let accessRequestRepo: ProjectAccessRequestRepository;
+let clientAdminRepo: ClientAdminRepository;
 
 export function initAuthMiddleware(container: Container) {
   projectMemberRepo = new ProjectMemberRepository(container);
   projectRepo = new ProjectRepository(container);
+  groupGrantRepo = new ProjectGroupGrantRepository(container);
+  accessRequestRepo = new ProjectAccessRequestRepository(container);
+  clientAdminRepo = new ClientAdminRepository(container);
+}
+
+/**
+ * All projects a user can access, through individual membership or group grants, with
+ * the highest role per project. Meant as the fetch function of getCachedUserProjects;
+ * use getCachedUserProjectAccess.
+ */
+export async function getUserProjectAccess(user: TokenUser): Promise<CachedProjectAccess[]> {
+  const groups = await getUserGroups(user);
+  const [memberships, grants] = await Promise.all([
+    projectMemberRepo.getUserProjects(user.userId),
+    groups.length > 0 ? groupGrantRepo.getGroupProjects(user.userId, groups) : Promise.resolve([]),
+    trackGroupMembers(user.userId, groups)
+  ]);
+
+  const byProject = new Map<string, CachedProjectAccess>();
+  for (const access of [...memberships, ...grants]) {
+    const current = byProject.get(access.projectId);
+    const role = current
+      ? await pickHighestRole(access.client_name, [current.role, access.role])
+      : access.role;
+    // Keep a membership's expiresAt so the cached list does not outlive it
+    const expiresAt = current?.expiresAt ?? access.expiresAt;
+    byProject.set(access.projectId, { ...access, role: role!, ...(expiresAt && { expiresAt }) });
+  }
+  return [...byProject.values()];
+}
+
+/**
+ * getUserProjectAccess through the user-projects cache. The cached list expires when one
+ * of the user's memberships starts (validFrom) or ends (expiresAt).
+ */
+export async function getCachedUserProjectAccess(user: TokenUser): Promise<CachedProjectAccess[]> {
+  return await getCachedUserProjects(
+    user.userId,
+    async () => await getUserProjectAccess(user),
+    async () => await projectMemberRepo.getNextValidFrom(user.userId)
+  );
 }
 
 /**
@@ -49,7 +116,9 @@ export async function verifyJWT(
       userId: tokenPayload.oid,
       email: tokenPayload.upn || tokenPayload.email || tokenPayload.unique_name || '',
       name: tokenPayload.name || 'Unknown User',
-      tenantId: tokenPayload.tid
+      tenantId: tokenPayload.tid,
+      groups: tokenPayload.groups,
+      groupsOverage: !!(tokenPayload._claim_names?.groups || tokenPayload.hasgroups)
     };
 
     // Log successful authentication (optional, remove in production if too verbose)
@@ -64,6 +133,9 @@ export async function verifyJWT(
 
     // Attach user to request
     (req as AuthRequest).user = user;
+
+    // Invitations sent to the user's email become memberships on first sign-in
+    await claimPendingInvitations(user);
     
     next();
   } catch (error: any) {
@@ -100,95 +172,245 @@ export async function verifyJWT(
 }
 
 /**
- * Check project access with caching
+ * Check project access with caching.
+ * Projects in the trash are reported as not found unless `deleted` is set, in which
+ * case only projects in the trash are matched (restore / purge routes).
  */
-export async function checkProjectAccess(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  try {
-    const authReq = req as AuthRequest;
-    const { client_name, slug } = extractProjectParams(req);
-    let projectId: string | undefined;
-
-    if (!client_name || !slug) {
-      return res.status(400).json({ 
-        error: 'missing_parameters',
-        message: 'Missing required parameters',
-        required: ['client_name', 'slug'],
-        received: { client_name, slug }
-      });
-    }
+function createProjectAccessCheck(options: { deleted: boolean }) {
+  return async function checkAccess(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const authReq = req as AuthRequest;
+      const { client_name, slug } = extractProjectParams(req);
+      let projectId: string | undefined;
+      let projectStatus: ProjectStatus | undefined;
 
-    // If projectId is missing, try to resolve it from client_name and slug
-    if (!projectId) {
-      const project = await projectRepo.getProjectsByClientAndSlug(client_name, slug);
-      if (!project) {
-        return res.status(404).json({ 
-          error: 'project_not_found',
-          message: 'Project not found'
+      if (!client_name || !slug) {
+        return res.status(400).json({ 
+          error: 'missing_parameters',
+          message: 'Missing required parameters',
+          required: ['client_name', 'slug'],
+          received: { client_name, slug }
         });
       }
-      projectId = project.id;      
-    }
 
-    // Get project access from cache or database
-    const access = await getCachedProjectAccess(
-      authReq.user.userId,
-      projectId,
-      async () => {
-        const member = await projectMemberRepo.getMember(
-          authReq.user.userId,
-          projectId,
-          client_name,
-          slug
-        );
+      // If projectId is missing, try to resolve it from client_name and slug
+      if (!projectId) {
+        const project = await projectRepo.getProjectsByClientAndSlug(client_name, slug);
+        if (!project && !options.deleted) {
+          const redirect = await projectRepo.getRedirect(client_name, slug);
+          if (redirect) {
+            return sendProjectMoved(req, res, { client_name, slug }, redirect.target);
+          }
+        }
+        if (!project || !!project.deletedAt !== options.deleted) {
+          return res.status(404).json({ 
+            error: 'project_not_found',
+            message: 'Project not found'
+          });
+        }
+        projectId = project.id;      
+        projectStatus = getProjectStatus(project);
+      }
+
+      // Get project access from cache or database; the highest of the individual and group roles wins
+      const access = await getCachedProjectAccess(
+        authReq.user.userId,
+        projectId,
+        async () => {
+          const groups = await getUserGroups(authReq.user);
+          const [membership, grants] = await Promise.all([
+            projectMemberRepo.getMember(authReq.user.userId, projectId!, client_name, slug),
+            groups.length > 0
+              ? groupGrantRepo.getGrantsForGroups(groups, client_name, slug)
+              : Promise.resolve([])
+          ]);
+
+          // Time-limited memberships only count within their access period
+          const member = membership && isMembershipActive(membership) ? membership : undefined;
+
+          const role = await pickHighestRole(client_name, [
+            ...(member ? [member.role] : []),
+            ...grants.map(g => g.role)
+          ]);
 
-        if (!member) {
-          return null;
+          if (!role) {
+            return null;
+          }
+
+          return {
+            userId: authReq.user.userId,
+            projectId: projectId!,
+            role,
+            client_name,
+            slug,
+            ...(member?.expiresAt && { expiresAt: member.expiresAt }),
+            cachedAt: Date.now()
+          };
         }
+      );
 
-        return {
-          userId: authReq.user.userId,
-          projectId: projectId!,
-          role: member.role,
-          client_name: member.client_name,
-          slug: member.slug,
-          cachedAt: Date.now()
-        };
+      if (!access) {
+        if (process.env.NODE_ENV === 'development') {
+          logger.debug('✗ Access denied', {
+            userId: authReq.user.userId,
+            email: authReq.user.email,
+            projectId,
+            client_name,
+            slug
+          });
+        }
+      
+        // Tell the caller whether they can still request access (POST .../access-requests)
+        const pendingRequest = options.deleted
+          ? undefined
+          : await accessRequestRepo.getPendingRequest(client_name, slug, authReq.user.userId);
+
+        return res.status(403).json({ 
+          error: 'access_denied',
+          message: 'You do not have access to this project',
+          ...(!options.deleted && {
+            accessRequestPending: !!pendingRequest,
+            ...(pendingRequest && {
+              accessRequest: {
+                id: pendingRequest.id,
+                role: pendingRequest.role,
+                createdAt: pendingRequest.createdAt
+              }
+            })
+          })
+        });
       }
-    );
 
-    if (!access) {
+      authReq.projectId = projectId;
+      authReq.userRole = access.role as ProjectRole;
+      authReq.clientName = client_name;
+      authReq.projectStatus = projectStatus;
+    
       if (process.env.NODE_ENV === 'development') {
-        logger.debug('✗ Access denied', {
+        logger.debug('Project access granted', {
           userId: authReq.user.userId,
           email: authReq.user.email,
           projectId,
-          client_name,
-          slug
+          role: access.role
         });
       }
-      
-      return res.status(403).json({ 
-        error: 'access_denied',
-        message: 'You do not have access to this project'
+    
+      next();
+    } catch (error) {
+      logger.error('Authorization error', error as Error);
+      res.status(500).json({ 
+        error: 'authorization_failed',
+        message: 'Authorization check failed'
       });
     }
+  };
+}
 
-    authReq.projectId = projectId;
-    authReq.userRole = access.role as ProjectRole;
-    
-    if (process.env.NODE_ENV === 'development') {
-      logger.debug('Project access granted', {
-        userId: authReq.user.userId,
-        email: authReq.user.email,
-        projectId,
-        role: access.role
+export const checkProjectAccess = createProjectAccessCheck({ deleted: false });
+export const checkDeletedProjectAccess = createProjectAccessCheck({ deleted: true });
+
+/**
+ * A user's standing on a client: their highest role on any of its projects, and whether
+ * they hold a client admin grant. Only the grant gives client-wide authority.
+ */
+export async function getClientAccess(
+  user: TokenUser,
+  clientName: string
+): Promise<{ role?: ProjectRole; admin: boolean }> {
+  const [access, admin] = await Promise.all([
+    getCachedUserProjectAccess(user),
+    clientAdminRepo.getAdmin(clientName, user.userId)
+  ]);
+
+  const role = await pickHighestRole(clientName, access
+    .filter(a => a.client_name === clientName)
+    .map(a => a.role as ProjectRole));
+
+  return { role, admin: !!admin };
+}
+
+/**
+ * Whether a user may create a project under a client (or move or clone one there): client
+ * admins and holders of project:create on one of its projects may. A client without
+ * projects and admins is new; whoever creates its first project becomes its admin
+ * (grantFirstClientAdmin). Anyone else is refused, so a project cannot be used to gain a
+ * foothold in another client.
+ */
+export async function getProjectCreationAccess(user: TokenUser, clientName: string): Promise<ProjectCreationAccess> {
+  const { role, admin } = await getClientAccess(user, clientName);
+  if ((await getClientPermissions(clientName, role, admin)).includes('project:create')) {
+    return 'allowed';
+  }
+
+  const [hasProjects, admins] = await Promise.all([
+    projectRepo.hasClientProjects(clientName),
+    clientAdminRepo.getAdmins(clientName)
+  ]);
+  return !hasProjects && admins.length === 0 ? 'new_client' : 'denied';
+}
+
+/**
+ * Make the creator of a new client's first project its admin
+ */
+export async function grantFirstClientAdmin(user: TokenUser, clientName: string): Promise<void> {
+  try {
+    await clientAdminRepo.create({
+      id: user.userId,
+      client_name: clientName,
+      slug: CLIENT_ADMINS_PARTITION,
+      userId: user.userId,
+      email: user.email,
+      userName: user.name,
+      grantedAt: new Date().toISOString(),
+      grantedBy: user.userId
+    });
+    logger.info('First client admin granted', { client_name: clientName, userId: user.userId });
+  } catch (error: any) {
+    if (error.code !== 409) {
+      throw error;
+    }
+  }
+}
+
+export function sendProjectCreationDenied(res: Response, clientName: string) {
+  return res.status(403).json({
+    error: 'client_access_denied',
+    message: `Creating projects under ${clientName} requires the project:create permission or a client admin grant`,
+    requiredPermission: 'project:create'
+  });
+}
+
+/**
+ * Check access to a client (client_name route parameter). The caller's role is the
+ * highest role they hold on any of the client's projects; client admin permissions
+ * come from a client admin grant only.
+ */
+export async function checkClientAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const authReq = req as AuthRequest;
+    const { client_name } = req.params;
+
+    const { role, admin } = await getClientAccess(authReq.user, client_name);
+
+    if (!role && !admin) {
+      return res.status(403).json({
+        error: 'access_denied',
+        message: 'You do not have access to this client'
       });
     }
-    
+
+    authReq.userRole = role;
+    authReq.clientName = client_name;
+    authReq.clientAdmin = admin;
+
     next();
   } catch (error) {
     logger.error('Authorization error', error as Error);
@@ -200,44 +422,173 @@ export async function checkProjectAccess(
 }
 
 /**
- * Require minimum role level
+ * Permissions of the caller on the project or client of the route
  */
-export function requireRole(minimumRole: ProjectRole) {
-  return (req: Request, res: Response, next: NextFunction) => {
+export async function getCallerPermissions(req: AuthRequest): Promise<Permission[]> {
+  return req.clientName
+    ? await getClientPermissions(req.clientName, req.userRole, !!req.clientAdmin)
+    : [];
+}
+
+/**
+ * Require a permission of the caller's role (set by checkProjectAccess / checkClientAccess),
+ * or of their client admin grant on client routes.
+ * Archived projects are read-only: permissions that change project content are refused.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     const authReq = req as AuthRequest;
-    const roleHierarchy: Record<ProjectRole, number> = {
-      owner: 3,
-      editor: 2,
-      viewer: 1
-    };
 
-    const userRoleLevel = roleHierarchy[authReq.userRole || 'viewer'];
-    const requiredRoleLevel = roleHierarchy[minimumRole];
+    try {
+      const permissions = await getCallerPermissions(authReq);
 
-    if (userRoleLevel < requiredRoleLevel) {
-      return res.status(403).json({
-        error: 'insufficient_permissions',
-        message: `This action requires ${minimumRole} role or higher`,
-        currentRole: authReq.userRole,
-        requiredRole: minimumRole
+      if (!permissions.includes(permission) && CLIENT_ADMIN_PERMISSIONS.includes(permission)) {
+        return res.status(403).json({
+          error: 'client_admin_required',
+          message: `This action requires a client admin of ${authReq.clientName}`,
+          requiredPermission: permission
+        });
+      }
+
+      if (!permissions.includes(permission)) {
+        return res.status(403).json({
+          error: 'insufficient_permissions',
+          message: `This action requires the ${permission} permission`,
+          currentRole: authReq.userRole,
+          requiredPermission: permission
+        });
+      }
+
+      if (
+        CONTENT_PERMISSIONS.includes(permission) &&
+        authReq.projectStatus &&
+        isReadOnlyStatus(authReq.projectStatus)
+      ) {
+        return res.status(403).json({
+          error: 'project_read_only',
+          message: `This project is ${authReq.projectStatus} and cannot be modified`,
+          status: authReq.projectStatus
+        });
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Authorization error', error as Error);
+      res.status(500).json({ 
+        error: 'authorization_failed',
+        message: 'Authorization check failed'
       });
     }
-    
-    next();
   };
 }
 
 /**
- * Combined middleware to verify JWT, check project access, and enforce role
+ * Whether the caller may give a role to someone or take it away: the role must not have
+ * permissions the caller's own role lacks, so members:manage cannot be used to escalate
  */
-export function requireProjectAccess(minimumRole: ProjectRole = 'viewer') {
+export async function canManageRole(req: AuthRequest, role: ProjectRole): Promise<boolean> {
+  return !!req.userRole && !!req.clientName && await isRoleCoveredBy(req.clientName, role, req.userRole);
+}
+
+export function sendRoleNotManageable(res: Response, role: ProjectRole) {
+  return res.status(403).json({
+    error: 'role_not_manageable',
+    message: `Role ${role} has permissions you do not hold`,
+    role
+  });
+}
+
+/**
+ * Check the role in the body of a role assignment (member, invitation, group grant): it must
+ * be built-in or defined for the client, and manageable by the caller. Runs after
+ * requirePermission('members:manage') and body validation; requests without a role pass.
+ */
+export async function checkAssignableRole(req: Request, res: Response, next: NextFunction) {
+  const authReq = req as AuthRequest;
+  const { role } = req.body;
+
+  if (role === undefined) {
+    return next();
+  }
+
+  try {
+    if (!(await isKnownRole(authReq.clientName!, role))) {
+      return res.status(400).json({
+        error: 'unknown_role',
+        message: `Role ${role} is not defined for ${authReq.clientName}`
+      });
+    }
+
+    if (!(await canManageRole(authReq, role))) {
+      return sendRoleNotManageable(res, role);
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Authorization error', error as Error);
+    res.status(500).json({ 
+      error: 'authorization_failed',
+      message: 'Authorization check failed'
+    });
+  }
+}
+
+/**
+ * Combined middleware to verify JWT, check project access, and enforce a permission
+ */
+export function requireProjectAccess(permission: Permission = 'project:read') {
   return [
     verifyJWT,
     checkProjectAccess,
-    requireRole(minimumRole)
+    requirePermission(permission)
   ];
 }
 
+/**
+ * Combined middleware to verify JWT, check client access, and enforce a permission
+ */
+export function requireClientAccess(permission: Permission = 'project:read') {
+  return [
+    verifyJWT,
+    checkClientAccess,
+    requirePermission(permission)
+  ];
+}
+
+/**
+ * Same as requireProjectAccess, for projects that are in the trash
+ */
+export function requireDeletedProjectAccess(permission: Permission = 'project:delete') {
+  return [
+    verifyJWT,
+    checkDeletedProjectAccess,
+    requirePermission(permission)
+  ];
+}
+
+/**
+ * Answer 308 for a project that was moved, pointing at the same route under its new key
+ */
+function sendProjectMoved(
+  req: Request,
+  res: Response,
+  from: { client_name: string; slug: string },
+  to: { client_name: string; slug: string }
+) {
+  const fromPath = `/${encodeURIComponent(from.client_name)}/${encodeURIComponent(from.slug)}`;
+  const toPath = `/${encodeURIComponent(to.client_name)}/${encodeURIComponent(to.slug)}`;
+
+  if (req.originalUrl.includes(fromPath)) {
+    res.location(req.originalUrl.replace(fromPath, toPath));
+  }
+
+  return res.status(308).json({
+    error: 'project_moved',
+    message: `Project has moved to ${to.client_name}/${to.slug}`,
+    movedTo: to
+  });
+}
+
 /**
  * Extract project parameters from request
  */
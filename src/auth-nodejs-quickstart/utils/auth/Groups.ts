@@ -0,0 +1,55 @@
+import { DefaultAzureCredential } from '@azure/identity';
+import { TokenUser } from '../../models/ProjectMember';
+import { getCachedUserGroups } from '../cache/CacheHelpers';
+import { logger } from '../telemetry/logger';
+
+const GRAPH_ENDPOINT = process.env.GRAPH_ENDPOINT || 'https://graph.microsoft.com';
+
+// Created lazily, only needed when a token has a groups overage
+let credential: DefaultAzureCredential | null = null;
+
+/**
+ * Group object IDs of a signed-in user. Taken from the groups claim; when the user is in
+ * too many groups for the token (groups overage), they are looked up in Microsoft Graph
+ * and cached for CACHE_TTL_USER seconds. If the lookup fails, no group grants apply.
+ */
+export async function getUserGroups(user: TokenUser): Promise<string[]> {
+  if (!user.groupsOverage) {
+    return user.groups ?? [];
+  }
+
+  try {
+    return await getCachedUserGroups(user.userId, () => fetchMemberGroups(user.userId));
+  } catch (error) {
+    logger.error('Group membership lookup failed', error as Error, { userId: user.userId });
+    return user.groups ?? [];
+  }
+}
+
+/**
+ * Security groups the user is a member of, directly or transitively, with the API's own
+ * identity. Needs the GroupMember.Read.All application permission on Microsoft Graph.
+ */
+async function fetchMemberGroups(userId: string): Promise<string[]> {
+  if (!credential) {
+    credential = new DefaultAzureCredential();
+  }
+  const { token } = await credential.getToken(`${GRAPH_ENDPOINT}/.default`);
+
+  const response = await fetch(`${GRAPH_ENDPOINT}/v1.0/users/${encodeURIComponent(userId)}/getMemberGroups`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ securityEnabledOnly: true })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Microsoft Graph getMemberGroups failed with status ${response.status}`);
+  }
+
+  const { value } = await response.json() as { value: string[] };
+  logger.debug('Group memberships fetched from Graph', { userId, count: value.length });
+  return value;
+}
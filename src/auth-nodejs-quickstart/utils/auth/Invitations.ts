@@ -0,0 +1,146 @@
+import { Container } from '@azure/cosmos';
+import { randomUUID } from 'crypto';
+import { ProjectInvitationRepository } from '../../repositories/ProjectInvitationRepository';
+import { ProjectMemberRepository } from '../../repositories/ProjectMemberRepository';
+import { InvitationStatus, ProjectInvitation } from '../../models/ProjectInvitation';
+import { ProjectMember, TokenUser } from '../../models/ProjectMember';
+import { invalidateProjectAccessCache, invalidateUserProjectsCache } from '../cache/CacheHelpers';
+import { logger } from '../telemetry/logger';
+
+export const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS || '14');
+
+// How often a signed-in user's pending invitations are looked up again (per instance)
+const INVITATION_CHECK_INTERVAL = parseInt(process.env.INVITATION_CHECK_INTERVAL || '300');
+const MAX_TRACKED_USERS = 10000;
+
+let invitationRepo: ProjectInvitationRepository;
+let projectMemberRepo: ProjectMemberRepository;
+
+// userId -> time of the last lookup of the user's pending invitations
+const lastChecked = new Map<string, number>();
+
+export function initInvitations(container: Container) {
+  invitationRepo = new ProjectInvitationRepository(container);
+  projectMemberRepo = new ProjectMemberRepository(container);
+}
+
+/**
+ * Status of an invitation as reported to clients: pending invitations past expiresAt are expired
+ */
+export function getInvitationStatus(invitation: ProjectInvitation): InvitationStatus {
+  if (invitation.status === 'pending' && Date.parse(invitation.expiresAt) <= Date.now()) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+/**
+ * Invitation with its reported status, without internal fields
+ */
+export function toInvitationResponse(invitation: ProjectInvitation) {
+  const { deletedAt, deletedBy, ttl, ...rest } = invitation;
+  return { ...rest, status: getInvitationStatus(invitation) };
+}
+
+/**
+ * Accept an invitation on behalf of the signed-in user: the membership is created and the
+ * invitation marked accepted in one transactional batch. If the user already is a member,
+ * their role is left as it is and only the invitation is marked accepted.
+ * Throws with code 412 if the invitation was answered concurrently.
+ */
+export async function acceptInvitation(
+  invitation: ProjectInvitation,
+  user: TokenUser
+): Promise<{ invitation: ProjectInvitation; member: ProjectMember }> {
+  const { client_name, slug, projectId } = invitation;
+
+  const existing = await projectMemberRepo.getMember(user.userId, projectId, client_name, slug);
+  const member: ProjectMember = existing ?? {
+    id: randomUUID(),
+    docType: 'projectMember',
+    client_name,
+    slug,
+    projectId,
+    userId: user.userId,
+    email: user.email,
+    userName: user.name,
+    role: invitation.role
+  };
+
+  const accepted = await invitationRepo.respond(
+    invitation,
+    'accepted',
+    user.userId,
+    existing ? [] : projectMemberRepo.createOperations(member)
+  );
+
+  await invalidateProjectAccessCache(user.userId, projectId);
+  await invalidateUserProjectsCache(user.userId);
+
+  logger.info('Invitation accepted', {
+    invitationId: invitation.id,
+    userId: user.userId,
+    client_name,
+    slug,
+    role: member.role,
+    alreadyMember: !!existing
+  });
+
+  return {
+    invitation: accepted,
+    member: existing ?? (await projectMemberRepo.getMember(user.userId, projectId, client_name, slug))!
+  };
+}
+
+/**
+ * On the first sign-in of a user who is not a member of any project yet, accept the pending
+ * invitations addressed to their token email, so invited people find their projects right
+ * away. Users with memberships accept or decline invitations explicitly.
+ * Looked up at most once per INVITATION_CHECK_INTERVAL per user and instance; failures are
+ * logged and never fail the request.
+ */
+export async function claimPendingInvitations(user: TokenUser): Promise<void> {
+  if (!invitationRepo || !user.email) {
+    return;
+  }
+
+  const now = Date.now();
+  const checkedAt = lastChecked.get(user.userId);
+  if (checkedAt && now - checkedAt < INVITATION_CHECK_INTERVAL * 1000) {
+    return;
+  }
+
+  if (lastChecked.size >= MAX_TRACKED_USERS) {
+    for (const [userId, time] of lastChecked.entries()) {
+      if (now - time >= INVITATION_CHECK_INTERVAL * 1000) {
+        lastChecked.delete(userId);
+      }
+    }
+  }
+  lastChecked.set(user.userId, now);
+
+  try {
+    // Not through the user-projects cache: that holds group access too (getUserProjectAccess)
+    // and must not be filled with memberships only
+    const memberships = await projectMemberRepo.getUserProjects(user.userId);
+    if (memberships.length > 0) {
+      return;
+    }
+
+    const invitations = await invitationRepo.getPendingInvitationsForEmail(user.email);
+
+    for (const invitation of invitations) {
+      try {
+        await acceptInvitation(invitation, user);
+      } catch (error: any) {
+        // 412: answered concurrently (e.g. by a parallel request of the same user)
+        if (error.code !== 412) {
+          logger.warn('Failed to accept invitation on sign-in', { invitationId: invitation.id, error: error.message });
+        }
+      }
+    }
+  } catch (error: any) {
+    lastChecked.delete(user.userId);
+    logger.warn('Failed to look up pending invitations', { userId: user.userId, error: error.message });
+  }
+}
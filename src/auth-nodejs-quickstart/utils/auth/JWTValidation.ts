@@ -15,6 +15,9 @@ export interface ValidatedTokenPayload extends JwtPayload {
   exp: number;        // Expiration
   iat: number;        // Issued at
   roles?: string[];   // App roles (if using Entra app roles)
+  groups?: string[];  // Group object IDs (if the app registration emits the groups claim)
+  hasgroups?: boolean;                   // Groups overage in implicit-flow tokens
+  _claim_names?: { groups?: string };    // Groups overage: groups must be fetched from Graph
   scp?: string;       // Scopes
 }
 
@@ -0,0 +1,118 @@
+import { Container } from '@azure/cosmos';
+import { ProjectMemberRepository } from '../../repositories/ProjectMemberRepository';
+import { ProjectMember, ProjectRole } from '../../models/ProjectMember';
+import { FieldError } from '../validation/SchemaValidator';
+import { invalidateProjectAccessCache, invalidateUserProjectsCache } from '../cache/CacheHelpers';
+import { logger } from '../telemetry/logger';
+
+// Seconds between sweeps for expired memberships (per instance); 0 disables the sweeper
+const MEMBERSHIP_SWEEP_INTERVAL = parseInt(process.env.MEMBERSHIP_SWEEP_INTERVAL || '300');
+
+let projectMemberRepo: ProjectMemberRepository;
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export function initMemberships(container: Container) {
+  projectMemberRepo = new ProjectMemberRepository(container);
+
+  if (MEMBERSHIP_SWEEP_INTERVAL > 0 && !sweepTimer) {
+    sweepTimer = setInterval(() => {
+      sweepExpiredMemberships();
+    }, MEMBERSHIP_SWEEP_INTERVAL * 1000);
+    sweepTimer.unref();
+  }
+}
+
+export function stopMembershipSweeper() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
+
+/**
+ * Whether a membership grants access now: validFrom has been reached and expiresAt has not
+ */
+export function isMembershipActive(member: Pick<ProjectMember, 'validFrom' | 'expiresAt'>, now = Date.now()): boolean {
+  return (!member.validFrom || Date.parse(member.validFrom) <= now) &&
+    (!member.expiresAt || Date.parse(member.expiresAt) > now);
+}
+
+/**
+ * Member with the time left until expiresAt (seconds, 0 once expired) and whether it is active
+ */
+export function toMemberResponse(member: ProjectMember) {
+  const now = Date.now();
+  return {
+    ...member,
+    active: isMembershipActive(member, now),
+    ...(member.expiresAt && {
+      expiresInSeconds: Math.max(0, Math.floor((Date.parse(member.expiresAt) - now) / 1000))
+    })
+  };
+}
+
+/**
+ * Check the access period of a membership, with validFrom / expiresAt as stored after the
+ * change. Owners cannot be time-limited, so a project never loses its last owner to expiry.
+ */
+export function getAccessPeriodErrors(
+  role: ProjectRole,
+  validFrom: string | undefined,
+  expiresAt: string | undefined,
+  changed: { expiresAt: boolean }
+): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (expiresAt && role === 'owner') {
+    errors.push({ field: 'expiresAt', message: 'cannot be set for owners' });
+  }
+  if (expiresAt && changed.expiresAt && Date.parse(expiresAt) <= Date.now()) {
+    errors.push({ field: 'expiresAt', message: 'must be in the future' });
+  }
+  if (validFrom && expiresAt && Date.parse(validFrom) >= Date.parse(expiresAt)) {
+    errors.push({ field: 'validFrom', message: 'must be before expiresAt' });
+  }
+  return errors;
+}
+
+/**
+ * Remove memberships whose expiresAt has passed and drop their cached access. Access already
+ * ends at expiresAt (checks and cache TTLs honour it); this removes the leftover documents.
+ * Failures are logged; memberships changed concurrently are left for the next sweep.
+ */
+export async function sweepExpiredMemberships(): Promise<number> {
+  let removed = 0;
+
+  try {
+    const expired = await projectMemberRepo.getExpiredMembers(new Date().toISOString());
+
+    for (const member of expired) {
+      try {
+        await projectMemberRepo.batch(member.client_name, member.slug)
+          .add(projectMemberRepo.deleteOperation(member.id, { ifMatch: member._etag }))
+          .execute();
+
+        await invalidateProjectAccessCache(member.userId, member.projectId);
+        await invalidateUserProjectsCache(member.userId);
+        removed++;
+
+        logger.info('Expired project membership removed', {
+          client_name: member.client_name,
+          slug: member.slug,
+          userId: member.userId,
+          role: member.role,
+          expiresAt: member.expiresAt
+        });
+      } catch (error: any) {
+        // 404 / 412: removed or changed (e.g. extended) by another request or instance
+        if (error.code !== 404 && error.code !== 412) {
+          logger.warn('Failed to remove expired membership', { memberId: member.id, error: error.message });
+        }
+      }
+    }
+  } catch (error: any) {
+    logger.warn('Failed to look up expired memberships', { error: error.message });
+  }
+
+  return removed;
+}
@@ -0,0 +1,135 @@
+import { Container } from '@azure/cosmos';
+import { RoleDefinitionRepository } from '../../repositories/RoleDefinitionRepository';
+import { Permission } from '../../models/RoleDefinition';
+import { BuiltInRole, ProjectRole } from '../../models/ProjectMember';
+
+export const PERMISSIONS: Permission[] = [
+  'project:read',
+  'project:create',
+  'project:update',
+  'project:delete',
+  'project:status',
+  'project:move',
+  'history:read',
+  'history:revert',
+  'members:read',
+  'members:manage',
+  'ownership:transfer',
+  'customFields:manage',
+  'clientAdmins:manage',
+  'roles:manage',
+  'layout:edit',
+  'comments:write'
+];
+
+// Names of built-in and custom roles
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9-]{0,63}$/;
+
+export const BUILT_IN_ROLES: BuiltInRole[] = ['owner', 'editor', 'viewer'];
+
+// Only a client admin grant gives these; project roles, built-in or custom, never do
+export const CLIENT_ADMIN_PERMISSIONS: Permission[] = ['customFields:manage', 'clientAdmins:manage', 'roles:manage'];
+
+// What a client admin holds on the client's routes, whatever their project roles
+const CLIENT_ADMIN_GRANT: Permission[] = ['project:read', 'project:create', ...CLIENT_ADMIN_PERMISSIONS];
+
+const BUILT_IN_ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  owner: PERMISSIONS.filter(p => !CLIENT_ADMIN_PERMISSIONS.includes(p)),
+  editor: ['project:read', 'project:update', 'history:read', 'history:revert', 'layout:edit', 'comments:write'],
+  viewer: ['project:read']
+};
+
+// Only the built-in owner role has these
+export const OWNER_ONLY_PERMISSIONS: Permission[] = ['ownership:transfer'];
+
+// Permissions that change a project's content; refused while the project is read-only (archived)
+export const CONTENT_PERMISSIONS: Permission[] = ['project:update', 'history:revert', 'layout:edit', 'comments:write'];
+
+let roleRepo: RoleDefinitionRepository;
+
+export function initPermissions(container: Container) {
+  roleRepo = new RoleDefinitionRepository(container);
+}
+
+export function isBuiltInRole(role: string): role is BuiltInRole {
+  return (BUILT_IN_ROLES as string[]).includes(role);
+}
+
+/**
+ * Permissions of a role on a client's projects. Custom roles are read from the client's
+ * role definitions on every call, so changes apply immediately; a role that is no longer
+ * defined has no permissions.
+ */
+export async function getRolePermissions(clientName: string, role: ProjectRole): Promise<Permission[]> {
+  if (isBuiltInRole(role)) {
+    return BUILT_IN_ROLE_PERMISSIONS[role];
+  }
+
+  const definition = await roleRepo.getDefinition(clientName, role);
+  return (definition?.permissions ?? []).filter(p => !CLIENT_ADMIN_PERMISSIONS.includes(p));
+}
+
+/**
+ * Permissions on a client's routes: those of the caller's highest project role on the
+ * client, plus the client admin permissions if they hold a client admin grant
+ */
+export async function getClientPermissions(
+  clientName: string,
+  role: ProjectRole | undefined,
+  clientAdmin: boolean
+): Promise<Permission[]> {
+  const permissions = role ? await getRolePermissions(clientName, role) : [];
+  return clientAdmin ? [...new Set([...permissions, ...CLIENT_ADMIN_GRANT])] : permissions;
+}
+
+export async function hasPermission(
+  clientName: string,
+  role: ProjectRole,
+  permission: Permission
+): Promise<boolean> {
+  return (await getRolePermissions(clientName, role)).includes(permission);
+}
+
+/**
+ * Whether a role can be assigned on a client's projects: built-in or defined for the client
+ */
+export async function isKnownRole(clientName: string, role: ProjectRole): Promise<boolean> {
+  return isBuiltInRole(role) || !!(await roleRepo.getDefinition(clientName, role));
+}
+
+/**
+ * Whether every permission of `role` is also held by `byRole`. Used so members:manage
+ * cannot be used to hand out (or take away) more than the caller has.
+ */
+export async function isRoleCoveredBy(
+  clientName: string,
+  role: ProjectRole,
+  byRole: ProjectRole
+): Promise<boolean> {
+  const [permissions, held] = await Promise.all([
+    getRolePermissions(clientName, role),
+    getRolePermissions(clientName, byRole)
+  ]);
+  return permissions.every(p => held.includes(p));
+}
+
+/**
+ * The role with the most permissions, for users who hold several roles on a project
+ * (individually and through groups). Built-in roles keep their order owner > editor > viewer.
+ */
+export async function pickHighestRole(
+  clientName: string,
+  roles: ProjectRole[]
+): Promise<ProjectRole | undefined> {
+  let best: ProjectRole | undefined;
+  let bestCount = -1;
+
+  for (const role of new Set(roles)) {
+    const count = (await getRolePermissions(clientName, role)).length;
+    if (count > bestCount) {
+      best = role;
+      bestCount = count;
+    }
+  }
+  return best;
+}
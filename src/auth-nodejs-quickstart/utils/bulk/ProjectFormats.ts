@@ -0,0 +1,225 @@
+import { schemas } from '../../schemas';
+
+export type BulkFormat = 'jsonl' | 'csv';
+
+export const BULK_CONTENT_TYPES: Record<BulkFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv'
+};
+
+export interface ParsedRow {
+  row: number;                       // 1-based data row (CSV header not counted)
+  value?: Record<string, any>;
+  error?: string;
+}
+
+interface Column {
+  name: string;                      // Dotted path for nested fields, e.g. details.country
+  path: string[];
+  type: string;
+}
+
+/**
+ * Columns of the import/export formats, derived from the ProjectCreate schema so the
+ * CSV layout follows the API. Nested objects (details, extra) become dotted columns;
+ * in CSV, arrays (tags) are joined with ';' and open objects (customFields) are JSON.
+ */
+export const PROJECT_COLUMNS: Column[] = collectColumns(schemas.ProjectCreate, []);
+
+function collectColumns(schema: any, path: string[]): Column[] {
+  return Object.entries<any>(schema.properties || {}).flatMap(([key, property]) => {
+    const resolved = property.$ref
+      ? schemas[property.$ref.replace('#/components/schemas/', '')]
+      : property;
+    if (resolved.type === 'object' && resolved.properties) {
+      return collectColumns(resolved, [...path, key]);
+    }
+    return [{ name: [...path, key].join('.'), path: [...path, key], type: resolved.type }];
+  });
+}
+
+/**
+ * Parse JSON Lines: one JSON object per line, blank lines ignored
+ */
+export function parseJsonLines(text: string): ParsedRow[] {
+  const rows: ParsedRow[] = [];
+  let row = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === '') continue;
+    row++;
+
+    try {
+      const value = JSON.parse(line);
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        rows.push({ row, error: 'Line must be a JSON object' });
+      } else {
+        rows.push({ row, value });
+      }
+    } catch {
+      rows.push({ row, error: 'Line is not valid JSON' });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Parse RFC 4180 CSV with a header row of PROJECT_COLUMNS names. Empty cells are left out,
+ * and number and boolean columns are converted to their JSON types.
+ */
+export function parseCsv(text: string): ParsedRow[] {
+  const [header, ...records] = readCsvRecords(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => PROJECT_COLUMNS.find(c => c.name === name.trim()));
+  const unknown = header.filter((_, i) => !columns[i]);
+  if (unknown.length > 0) {
+    return [{ row: 0, error: `Unknown columns: ${unknown.join(', ')}` }];
+  }
+
+  return records
+    .filter(record => record.some(cell => cell !== ''))
+    .map((record, index) => {
+      const row = index + 1;
+      if (record.length !== header.length) {
+        return { row, error: `Expected ${header.length} cells, found ${record.length}` };
+      }
+
+      const value: Record<string, any> = {};
+      for (const [i, cell] of record.entries()) {
+        if (cell === '') continue;
+
+        const column = columns[i]!;
+        const converted = convertCell(cell, column.type);
+        if (converted === undefined) {
+          return { row, error: `${column.name} must be ${column.type === 'object' ? 'a JSON object' : `a ${column.type}`}` };
+        }
+        setPath(value, column.path, converted);
+      }
+      return { row, value };
+    });
+}
+
+/**
+ * Serialize a project as one JSON Lines record with the importable fields
+ */
+export function toJsonLine(project: Record<string, any>): string {
+  const value: Record<string, any> = {};
+  for (const column of PROJECT_COLUMNS) {
+    const cell = getPath(project, column.path);
+    if (cell !== undefined) {
+      setPath(value, column.path, cell);
+    }
+  }
+  return `${JSON.stringify(value)}\n`;
+}
+
+export function toCsvHeader(): string {
+  return `${PROJECT_COLUMNS.map(c => escapeCsv(c.name)).join(',')}\r\n`;
+}
+
+/**
+ * Serialize a project as one CSV record in PROJECT_COLUMNS order
+ */
+export function toCsvRow(project: Record<string, any>): string {
+  return `${PROJECT_COLUMNS.map(c => {
+    const cell = getPath(project, c.path);
+    return cell === undefined || cell === null ? '' : escapeCsv(formatCell(cell, c.type));
+  }).join(',')}\r\n`;
+}
+
+function convertCell(cell: string, type: string): unknown {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(cell);
+      return cell.trim() !== '' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      return cell === 'true' ? true : cell === 'false' ? false : undefined;
+    case 'array':
+      return cell.split(';').map(item => item.trim()).filter(item => item !== '');
+    case 'object':
+      try {
+        const value = JSON.parse(cell);
+        return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : undefined;
+      } catch {
+        return undefined;
+      }
+    default:
+      return cell;
+  }
+}
+
+function formatCell(cell: unknown, type: string): string {
+  switch (type) {
+    case 'array':
+      return (cell as unknown[]).join(';');
+    case 'object':
+      return JSON.stringify(cell);
+    default:
+      return String(cell);
+  }
+}
+
+function readCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function getPath(value: Record<string, any>, path: string[]): any {
+  return path.reduce((current, key) => current?.[key], value);
+}
+
+function setPath(value: Record<string, any>, path: string[], cell: unknown): void {
+  let current = value;
+  for (const key of path.slice(0, -1)) {
+    current[key] = current[key] ?? {};
+    current = current[key];
+  }
+  current[path[path.length - 1]] = cell;
+}
@@ -14,6 +14,7 @@ export interface CacheConfig {
     user: number;
     projectAccess: number;
     userProjects: number;
+    projectStats: number;
   };
 }
 
@@ -27,6 +28,7 @@ export const cacheConfig: CacheConfig = {
     user: parseInt(process.env.CACHE_TTL_USER || '3600'),
     projectAccess: parseInt(process.env.CACHE_TTL_PROJECT_ACCESS || '1800'),
     userProjects: parseInt(process.env.CACHE_TTL_USER_PROJECTS || '600'),
+    projectStats: parseInt(process.env.CACHE_TTL_PROJECT_STATS || '300'),
   }
 };
 
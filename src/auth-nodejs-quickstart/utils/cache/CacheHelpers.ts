@@ -1,4 +1,5 @@
 import { ICache, CachedUserProjects, CachedProjectAccess } from './CacheInterface';
+import { ProjectStats } from '../../models/Project';
 import { cacheConfig } from './CacheConfig';
 import { logger } from '../telemetry/logger';
 
@@ -17,7 +18,8 @@ export function getCacheInstance(): ICache | null {
  */
 export async function getCachedUserProjects(
   userId: string,
-  fetchFromDb: () => Promise<CachedProjectAccess[]>
+  fetchFromDb: () => Promise<CachedProjectAccess[]>,
+  fetchNextValidFrom: () => Promise<string | undefined> = async () => undefined
 ): Promise<CachedProjectAccess[]> {
   if (!cacheInstance || !cacheInstance.isConnected()) {
     logger.debug('Cache: BYPASS - cache not available');
@@ -33,7 +35,7 @@ export async function getCachedUserProjects(
 
   // Cache miss - fetch from database
   logger.debug(`Cache: MISS - User projects for userId=${userId.substring(0, 8)}..., fetching from DB`);
-  const projects = await fetchFromDb();
+  const [projects, nextValidFrom] = await Promise.all([fetchFromDb(), fetchNextValidFrom()]);
   
   const cacheData: CachedUserProjects = {
     userId,
@@ -41,12 +43,68 @@ export async function getCachedUserProjects(
     cachedAt: Date.now()
   };
   
-  await cacheInstance.setUserProjects(userId, cacheData, cacheConfig.ttl.userProjects);
-  logger.debug(`Cache: SET - User projects cached for userId=${userId.substring(0, 8)}... (TTL: ${cacheConfig.ttl.userProjects}s)`);
+  // Neither outlive a membership nor hide one whose access period starts meanwhile
+  const ttl = capTtlAt(cacheConfig.ttl.userProjects, [...projects.map(p => p.expiresAt), nextValidFrom]);
+  await cacheInstance.setUserProjects(userId, cacheData, ttl);
+  logger.debug(`Cache: SET - User projects cached for userId=${userId.substring(0, 8)}... (TTL: ${ttl}s)`);
 
   return projects;
 }
 
+/**
+ * Get a user's project stats from cache or compute them from the database
+ */
+export async function getCachedProjectStats(
+  userId: string,
+  fetchFromDb: () => Promise<ProjectStats>
+): Promise<ProjectStats> {
+  if (!cacheInstance || !cacheInstance.isConnected()) {
+    logger.debug('Cache: BYPASS - cache not available');
+    return await fetchFromDb();
+  }
+
+  const cached = await cacheInstance.getProjectStats(userId);
+  if (cached) {
+    logger.debug(`Cache: HIT - Project stats for userId=${userId.substring(0, 8)}...`);
+    return cached.stats;
+  }
+
+  logger.debug(`Cache: MISS - Project stats for userId=${userId.substring(0, 8)}..., fetching from DB`);
+  const stats = await fetchFromDb();
+
+  await cacheInstance.setProjectStats(userId, { userId, stats, cachedAt: Date.now() }, cacheConfig.ttl.projectStats);
+  logger.debug(`Cache: SET - Project stats cached for userId=${userId.substring(0, 8)}... (TTL: ${cacheConfig.ttl.projectStats}s)`);
+
+  return stats;
+}
+
+/**
+ * Get a user's Entra group IDs from cache or look them up (Microsoft Graph)
+ */
+export async function getCachedUserGroups(
+  userId: string,
+  fetchGroups: () => Promise<string[]>
+): Promise<string[]> {
+  if (!cacheInstance || !cacheInstance.isConnected()) {
+    logger.debug('Cache: BYPASS - cache not available');
+    return await fetchGroups();
+  }
+
+  const cached = await cacheInstance.getUserGroups(userId);
+  if (cached) {
+    logger.debug(`Cache: HIT - User groups for userId=${userId.substring(0, 8)}...`);
+    return cached.groups;
+  }
+
+  logger.debug(`Cache: MISS - User groups for userId=${userId.substring(0, 8)}..., fetching from Graph`);
+  const groups = await fetchGroups();
+
+  await cacheInstance.setUserGroups(userId, { userId, groups, cachedAt: Date.now() }, cacheConfig.ttl.user);
+  logger.debug(`Cache: SET - User groups cached for userId=${userId.substring(0, 8)}... (TTL: ${cacheConfig.ttl.user}s)`);
+
+  return groups;
+}
+
 /**
  * Get project access from cache or fetch from database
  */
@@ -72,15 +130,30 @@ export async function getCachedProjectAccess(
   const access = await fetchFromDb();
   
   if (access) {
-    await cacheInstance.setProjectAccess(userId, projectId, access, cacheConfig.ttl.projectAccess);
-    logger.debug(`Cache: SET - Project access cached for userId=${userId.substring(0, 8)}..., projectId=${projectId.substring(0, 8)}... (TTL: ${cacheConfig.ttl.projectAccess}s)`);
+    const ttl = capTtlAt(cacheConfig.ttl.projectAccess, [access.expiresAt]);
+    await cacheInstance.setProjectAccess(userId, projectId, access, ttl);
+    logger.debug(`Cache: SET - Project access cached for userId=${userId.substring(0, 8)}..., projectId=${projectId.substring(0, 8)}... (TTL: ${ttl}s)`);
   }
 
   return access;
 }
 
 /**
- * Invalidate user projects cache
+ * Shorten a TTL (seconds) so the entry does not outlive the earliest of the given
+ * times (membership expiry or start)
+ */
+function capTtlAt(ttl: number, times: (string | undefined)[]): number {
+  const now = Date.now();
+  for (const time of times) {
+    if (time) {
+      ttl = Math.min(ttl, Math.ceil((Date.parse(time) - now) / 1000));
+    }
+  }
+  return Math.max(ttl, 1);
+}
+
+/**
+ * Invalidate user projects cache (and the project stats derived from it)
  */
 export async function invalidateUserProjectsCache(userId: string): Promise<void> {
   if (cacheInstance && cacheInstance.isConnected()) {
@@ -103,7 +176,41 @@ export async function invalidateProjectAccessCache(
 }
 
 /**
- * Invalidate all access for a project
+ * Invalidate the project access and project lists of several members of a project at once,
+ * once per user
+ */
+export async function invalidateMembersCache(projectId: string, userIds: string[]): Promise<void> {
+  await Promise.all([...new Set(userIds)].map(async userId => {
+    await invalidateProjectAccessCache(userId, projectId);
+    await invalidateUserProjectsCache(userId);
+  }));
+}
+
+/**
+ * Remember that a user's project list is being computed with their groups, so a change
+ * to a grant of one of the groups can drop it (see invalidateGroupMembersCache). Kept as
+ * long as a project list and the stats computed from it can live.
+ */
+export async function trackGroupMembers(userId: string, groupIds: string[]): Promise<void> {
+  if (cacheInstance && cacheInstance.isConnected()) {
+    const ttl = cacheConfig.ttl.userProjects + cacheConfig.ttl.projectStats;
+    await Promise.all(groupIds.map(groupId => cacheInstance!.addGroupMember(groupId, userId, ttl)));
+  }
+}
+
+/**
+ * Invalidate the project lists (and stats) of users who got access through the groups
+ */
+export async function invalidateGroupMembersCache(groupIds: string[]): Promise<void> {
+  if (cacheInstance && cacheInstance.isConnected()) {
+    await Promise.all([...new Set(groupIds)].map(groupId => cacheInstance!.invalidateGroupMembers(groupId)));
+    logger.debug(`Cache: INVALIDATE - Project lists of members of ${groupIds.length} group(s)`);
+  }
+}
+
+/**
+ * Invalidate all access for a project (project lists are left alone; see
+ * invalidateUserProjectsCache and invalidateGroupMembersCache)
  */
 export async function invalidateProjectCache(projectId: string): Promise<void> {
   if (cacheInstance && cacheInstance.isConnected()) {
@@ -1,3 +1,5 @@
+import { ProjectStats } from '../../models/Project';
+
 export interface TokenUser {
   userId: string;
   email: string;
@@ -11,6 +13,7 @@ export interface CachedProjectAccess {
   role: string;
   client_name: string;
   slug: string;
+  expiresAt?: string;
   cachedAt: number;
 }
 
@@ -20,19 +23,59 @@ export interface CachedUserProjects {
   cachedAt: number;
 }
 
+export interface CachedProjectStats {
+  userId: string;
+  stats: ProjectStats;
+  cachedAt: number;
+}
+
+// Entra group memberships of a user, looked up from Microsoft Graph on groups overage
+export interface CachedUserGroups {
+  userId: string;
+  groups: string[];
+  cachedAt: number;
+}
+
+// First response to a request carrying an Idempotency-Key, replayed for retries
+export interface IdempotencyRecord {
+  fingerprint: string;     // Hash of method, path and body of the first request
+  state: 'in_progress' | 'completed';
+  status?: number;
+  body?: unknown;          // JSON response body
+  rawBody?: string;        // Any other response body, base64-encoded
+  headers?: Record<string, string>;
+  createdAt: number;
+}
+
 export interface ICache {
   // User projects operations (cache entire project list per user)
   getUserProjects(userId: string): Promise<CachedUserProjects | null>;
   setUserProjects(userId: string, projects: CachedUserProjects, ttl: number): Promise<void>;
-  invalidateUserProjects(userId: string): Promise<void>;
+  invalidateUserProjects(userId: string): Promise<void>;   // Also drops the user's project stats
+
+  // Project stats operations (aggregates over the user's projects)
+  getProjectStats(userId: string): Promise<CachedProjectStats | null>;
+  setProjectStats(userId: string, stats: CachedProjectStats, ttl: number): Promise<void>;
 
   // Project access operations
   getProjectAccess(userId: string, projectId: string): Promise<CachedProjectAccess | null>;
   setProjectAccess(userId: string, projectId: string, access: CachedProjectAccess, ttl: number): Promise<void>;
   invalidateProjectAccess(userId: string, projectId: string): Promise<void>;
 
+  // Entra group operations (group object IDs of a user)
+  getUserGroups(userId: string): Promise<CachedUserGroups | null>;
+  setUserGroups(userId: string, groups: CachedUserGroups, ttl: number): Promise<void>;
+  addGroupMember(groupId: string, userId: string, ttl: number): Promise<void>;   // User whose project list was computed with the group
+  invalidateGroupMembers(groupId: string): Promise<void>;   // Drops those users' project lists and stats
+
   // Bulk operations
-  invalidateProjectCache(projectId: string): Promise<void>;
+  invalidateProjectCache(projectId: string): Promise<void>;   // Access entries of all users to the project
+
+  // Idempotency-Key records (reserve only succeeds if the key is not stored yet)
+  getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null>;
+  reserveIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean>;
+  setIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<void>;
+  deleteIdempotencyRecord(key: string): Promise<void>;
 
   // Connection
   connect(): Promise<void>;
@@ -1,4 +1,4 @@
-import { ICache, CachedUserProjects, CachedProjectAccess } from './CacheInterface';
+import { ICache, CachedUserProjects, CachedProjectAccess, CachedProjectStats, CachedUserGroups, IdempotencyRecord } from './CacheInterface';
 
 interface CacheEntry<T> {
   data: T;
@@ -8,6 +8,10 @@ interface CacheEntry<T> {
 export class MemoryCache implements ICache {
   private userProjectsCache = new Map<string, CacheEntry<CachedUserProjects>>();
   private accessCache = new Map<string, CacheEntry<CachedProjectAccess>>();
+  private statsCache = new Map<string, CacheEntry<CachedProjectStats>>();
+  private groupsCache = new Map<string, CacheEntry<CachedUserGroups>>();
+  private groupMembersCache = new Map<string, CacheEntry<Set<string>>>();
+  private idempotencyCache = new Map<string, CacheEntry<IdempotencyRecord>>();
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   async connect(): Promise<void> {        
@@ -22,6 +26,10 @@ export class MemoryCache implements ICache {
     }
     this.userProjectsCache.clear();
     this.accessCache.clear();
+    this.statsCache.clear();
+    this.groupsCache.clear();
+    this.groupMembersCache.clear();
+    this.idempotencyCache.clear();
   }
 
   isConnected(): boolean {
@@ -42,6 +50,30 @@ export class MemoryCache implements ICache {
         this.accessCache.delete(key);
       }
     }
+
+    for (const [key, entry] of this.statsCache.entries()) {
+      if (entry.expiresAt < now) {
+        this.statsCache.delete(key);
+      }
+    }
+
+    for (const [key, entry] of this.groupsCache.entries()) {
+      if (entry.expiresAt < now) {
+        this.groupsCache.delete(key);
+      }
+    }
+
+    for (const [key, entry] of this.groupMembersCache.entries()) {
+      if (entry.expiresAt < now) {
+        this.groupMembersCache.delete(key);
+      }
+    }
+
+    for (const [key, entry] of this.idempotencyCache.entries()) {
+      if (entry.expiresAt < now) {
+        this.idempotencyCache.delete(key);
+      }
+    }
   }
 
   private isExpired(entry: CacheEntry<any>): boolean {
@@ -66,6 +98,23 @@ export class MemoryCache implements ICache {
 
   async invalidateUserProjects(userId: string): Promise<void> {
     this.userProjectsCache.delete(userId);
+    this.statsCache.delete(userId);
+  }
+
+  async getProjectStats(userId: string): Promise<CachedProjectStats | null> {
+    const entry = this.statsCache.get(userId);
+    if (!entry || this.isExpired(entry)) {
+      this.statsCache.delete(userId);
+      return null;
+    }
+    return entry.data;
+  }
+
+  async setProjectStats(userId: string, stats: CachedProjectStats, ttl: number): Promise<void> {
+    this.statsCache.set(userId, {
+      data: stats,
+      expiresAt: Date.now() + ttl * 1000
+    });
   }
 
   async getProjectAccess(userId: string, projectId: string): Promise<CachedProjectAccess | null> {
@@ -90,6 +139,7 @@ export class MemoryCache implements ICache {
     const key = `${userId}:${projectId}`;
     this.accessCache.delete(key);
     this.userProjectsCache.delete(userId);
+    this.statsCache.delete(userId);
   }
 
   async invalidateProjectCache(projectId: string): Promise<void> {
@@ -99,4 +149,67 @@ export class MemoryCache implements ICache {
       }
     }
   }
+
+  async getUserGroups(userId: string): Promise<CachedUserGroups | null> {
+    const entry = this.groupsCache.get(userId);
+    if (!entry || this.isExpired(entry)) {
+      this.groupsCache.delete(userId);
+      return null;
+    }
+    return entry.data;
+  }
+
+  async setUserGroups(userId: string, groups: CachedUserGroups, ttl: number): Promise<void> {
+    this.groupsCache.set(userId, {
+      data: groups,
+      expiresAt: Date.now() + ttl * 1000
+    });
+  }
+
+  async addGroupMember(groupId: string, userId: string, ttl: number): Promise<void> {
+    const entry = this.groupMembersCache.get(groupId);
+    const userIds = entry && !this.isExpired(entry) ? entry.data : new Set<string>();
+    userIds.add(userId);
+    this.groupMembersCache.set(groupId, {
+      data: userIds,
+      expiresAt: Date.now() + ttl * 1000
+    });
+  }
+
+  async invalidateGroupMembers(groupId: string): Promise<void> {
+    const entry = this.groupMembersCache.get(groupId);
+    this.groupMembersCache.delete(groupId);
+    for (const userId of entry?.data ?? []) {
+      this.userProjectsCache.delete(userId);
+      this.statsCache.delete(userId);
+    }
+  }
+
+  async getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null> {
+    const entry = this.idempotencyCache.get(key);
+    if (!entry || this.isExpired(entry)) {
+      this.idempotencyCache.delete(key);
+      return null;
+    }
+    return entry.data;
+  }
+
+  async reserveIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean> {
+    if (await this.getIdempotencyRecord(key)) {
+      return false;
+    }
+    await this.setIdempotencyRecord(key, record, ttl);
+    return true;
+  }
+
+  async setIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<void> {
+    this.idempotencyCache.set(key, {
+      data: record,
+      expiresAt: Date.now() + ttl * 1000
+    });
+  }
+
+  async deleteIdempotencyRecord(key: string): Promise<void> {
+    this.idempotencyCache.delete(key);
+  }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { ICache, CachedUserProjects, CachedProjectAccess } from './CacheInterface';
+import { ICache, CachedUserProjects, CachedProjectAccess, CachedProjectStats, CachedUserGroups, IdempotencyRecord } from './CacheInterface';
 
 export class NoOpCache implements ICache {
   async connect(): Promise<void> {
@@ -19,6 +19,12 @@ export class NoOpCache implements ICache {
 
   async invalidateUserProjects(userId: string): Promise<void> {}
 
+  async getProjectStats(userId: string): Promise<CachedProjectStats | null> {
+    return null;
+  }
+
+  async setProjectStats(userId: string, stats: CachedProjectStats, ttl: number): Promise<void> {}
+
   async getProjectAccess(userId: string, projectId: string): Promise<CachedProjectAccess | null> {
     return null;
   }
@@ -28,4 +34,26 @@ export class NoOpCache implements ICache {
   async invalidateProjectAccess(userId: string, projectId: string): Promise<void> {}
 
   async invalidateProjectCache(projectId: string): Promise<void> {}
+
+  async getUserGroups(userId: string): Promise<CachedUserGroups | null> {
+    return null;
+  }
+
+  async setUserGroups(userId: string, groups: CachedUserGroups, ttl: number): Promise<void> {}
+
+  async addGroupMember(groupId: string, userId: string, ttl: number): Promise<void> {}
+
+  async invalidateGroupMembers(groupId: string): Promise<void> {}
+
+  async getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null> {
+    return null;
+  }
+
+  async reserveIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean> {
+    return false;
+  }
+
+  async setIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<void> {}
+
+  async deleteIdempotencyRecord(key: string): Promise<void> {}
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { createClient, RedisClientType } from 'redis';
 import { DefaultAzureCredential } from '@azure/identity';
-import { ICache, CachedUserProjects, CachedProjectAccess } from './CacheInterface';
+import { ICache, CachedUserProjects, CachedProjectAccess, CachedProjectStats, CachedUserGroups, IdempotencyRecord } from './CacheInterface';
 import { logger } from '../telemetry/logger';
 
 export class RedisCache implements ICache {
@@ -199,13 +199,40 @@ export class RedisCache implements ICache {
     if (!this.client || !this.connected) return;
     
     try {
-      const key = this.getKey('user-projects', userId);
-      await this.client.del(key);
+      await this.client.del([
+        this.getKey('user-projects', userId),
+        this.getKey('project-stats', userId)
+      ]);
     } catch (error) {
       logger.error('Redis invalidate user projects error', error as Error, { userId });
     }
   }
 
+  // Project stats operations
+  async getProjectStats(userId: string): Promise<CachedProjectStats | null> {
+    if (!this.client || !this.connected) return null;
+    
+    try {
+      const key = this.getKey('project-stats', userId);
+      const data = await this.client.get(key);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.error('Redis get project stats error', error as Error, { userId });
+      return null;
+    }
+  }
+
+  async setProjectStats(userId: string, stats: CachedProjectStats, ttl: number): Promise<void> {
+    if (!this.client || !this.connected) return;
+    
+    try {
+      const key = this.getKey('project-stats', userId);
+      await this.client.setEx(key, ttl, JSON.stringify(stats));
+    } catch (error) {
+      logger.error('Redis set project stats error', error as Error, { userId, ttl });
+    }
+  }
+
   // Project access operations
   async getProjectAccess(userId: string, projectId: string): Promise<CachedProjectAccess | null> {
     if (!this.client || !this.connected) return null;
@@ -237,13 +264,66 @@ export class RedisCache implements ICache {
     try {
       await Promise.all([
         this.client.del(this.getKey('access', userId, projectId)),
-        this.client.del(this.getKey('user-projects', userId))
+        this.client.del(this.getKey('user-projects', userId)),
+        this.client.del(this.getKey('project-stats', userId))
       ]);
     } catch (error) {
       logger.error('Redis invalidate project access error', error as Error, { userId, projectId });
     }
   }
 
+  // Entra group operations
+  async getUserGroups(userId: string): Promise<CachedUserGroups | null> {
+    if (!this.client || !this.connected) return null;
+    
+    try {
+      const key = this.getKey('user-groups', userId);
+      const data = await this.client.get(key);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.error('Redis get user groups error', error as Error, { userId });
+      return null;
+    }
+  }
+
+  async setUserGroups(userId: string, groups: CachedUserGroups, ttl: number): Promise<void> {
+    if (!this.client || !this.connected) return;
+    
+    try {
+      const key = this.getKey('user-groups', userId);
+      await this.client.setEx(key, ttl, JSON.stringify(groups));
+    } catch (error) {
+      logger.error('Redis set user groups error', error as Error, { userId, ttl });
+    }
+  }
+
+  async addGroupMember(groupId: string, userId: string, ttl: number): Promise<void> {
+    if (!this.client || !this.connected) return;
+    
+    try {
+      const key = this.getKey('group-members', groupId);
+      await this.client.sAdd(key, userId);
+      await this.client.expire(key, ttl);
+    } catch (error) {
+      logger.error('Redis add group member error', error as Error, { groupId, userId, ttl });
+    }
+  }
+
+  async invalidateGroupMembers(groupId: string): Promise<void> {
+    if (!this.client || !this.connected) return;
+    
+    try {
+      const key = this.getKey('group-members', groupId);
+      const userIds = await this.client.sMembers(key);
+      await this.client.del([
+        key,
+        ...userIds.flatMap(userId => [this.getKey('user-projects', userId), this.getKey('project-stats', userId)])
+      ]);
+    } catch (error) {
+      logger.error('Redis invalidate group members error', error as Error, { groupId });
+    }
+  }
+
   // Bulk operations
   async invalidateProjectCache(projectId: string): Promise<void> {
     if (!this.client || !this.connected) return;
@@ -262,22 +342,54 @@ export class RedisCache implements ICache {
       if (keys.length > 0) {
         await this.client.del(keys);
       }
-
-      // Also invalidate user project lists that might contain this project
-      const userProjectPattern = this.getKey('user-projects', '*');
-      const userKeys: string[] = [];
-      
-      for await (const key of this.client.scanIterator({ MATCH: userProjectPattern, COUNT: 100 })) {
-        if (typeof key === 'string') {
-          userKeys.push(key);
-        }
-      }
-      
-      if (userKeys.length > 0) {
-        await this.client.del(userKeys);
-      }
     } catch (error) {
       logger.error('Redis invalidate project cache error', error as Error, { projectId });
     }
   }
+
+  // Idempotency-Key records
+  async getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null> {
+    if (!this.client || !this.connected) return null;
+
+    try {
+      const data = await this.client.get(this.getKey('idempotency', key));
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.error('Redis get idempotency record error', error as Error, { key });
+      return null;
+    }
+  }
+
+  async reserveIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean> {
+    if (!this.client || !this.connected) return false;
+
+    try {
+      // SET NX makes the reservation atomic across API instances
+      const result = await this.client.set(this.getKey('idempotency', key), JSON.stringify(record), { NX: true, EX: ttl });
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Redis reserve idempotency record error', error as Error, { key, ttl });
+      return false;
+    }
+  }
+
+  async setIdempotencyRecord(key: string, record: IdempotencyRecord, ttl: number): Promise<void> {
+    if (!this.client || !this.connected) return;
+
+    try {
+      await this.client.setEx(this.getKey('idempotency', key), ttl, JSON.stringify(record));
+    } catch (error) {
+      logger.error('Redis set idempotency record error', error as Error, { key, ttl });
+    }
+  }
+
+  async deleteIdempotencyRecord(key: string): Promise<void> {
+    if (!this.client || !this.connected) return;
+
+    try {
+      await this.client.del(this.getKey('idempotency', key));
+    } catch (error) {
+      logger.error('Redis delete idempotency record error', error as Error, { key });
+    }
+  }
 }
\ No newline at end of file
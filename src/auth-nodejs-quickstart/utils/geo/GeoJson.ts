@@ -0,0 +1,86 @@
+import { GeoPoint } from '../../models/Project';
+
+export interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: Array<Array<[number, number]>>;
+}
+
+export interface GeoFeature<P> {
+  type: 'Feature';
+  geometry: GeoPoint;
+  properties: P;
+}
+
+export interface GeoFeatureCollection<P> {
+  type: 'FeatureCollection';
+  features: Array<GeoFeature<P>>;
+}
+
+export interface BoundingBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+/**
+ * Check that a latitude/longitude pair is a valid WGS-84 coordinate
+ */
+export function isValidCoordinate(lat: unknown, lon: unknown): boolean {
+  return typeof lat === 'number' && typeof lon === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lon) &&
+    lat >= -90 && lat <= 90 &&
+    lon >= -180 && lon <= 180;
+}
+
+/**
+ * Build a GeoJSON Point from latitude/longitude (GeoJSON order is [lon, lat])
+ */
+export function toGeoPoint(lat: number, lon: number): GeoPoint {
+  return { type: 'Point', coordinates: [lon, lat] };
+}
+
+/**
+ * Parse a "minLon,minLat,maxLon,maxLat" bounding box
+ */
+export function parseBoundingBox(value: string): BoundingBox | undefined {
+  const parts = value.split(',').map(p => Number(p.trim()));
+  if (parts.length !== 4 || parts.some(p => !Number.isFinite(p))) {
+    return undefined;
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = parts;
+  if (!isValidCoordinate(minLat, minLon) || !isValidCoordinate(maxLat, maxLon)) {
+    return undefined;
+  }
+  if (minLon >= maxLon || minLat >= maxLat) {
+    return undefined;
+  }
+
+  return { minLon, minLat, maxLon, maxLat };
+}
+
+/**
+ * Convert a bounding box to a GeoJSON Polygon.
+ * Cosmos DB requires counter-clockwise exterior rings that are closed.
+ */
+export function boundingBoxToPolygon(bbox: BoundingBox): GeoPolygon {
+  const { minLon, minLat, maxLon, maxLat } = bbox;
+  return {
+    type: 'Polygon',
+    coordinates: [[
+      [minLon, minLat],
+      [maxLon, minLat],
+      [maxLon, maxLat],
+      [minLon, maxLat],
+      [minLon, minLat]
+    ]]
+  };
+}
+
+/**
+ * Wrap features in a GeoJSON FeatureCollection
+ */
+export function toFeatureCollection<P>(features: Array<GeoFeature<P>>): GeoFeatureCollection<P> {
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+
+/**
+ * Read the If-Match header.
+ * Returns undefined when the header is absent or "*" (matches any version).
+ */
+export function getIfMatch(req: Request): string | undefined {
+  const header = req.get('if-match')?.trim();
+  if (!header || header === '*') {
+    return undefined;
+  }
+  return header;
+}
+
+/**
+ * Expose the Cosmos DB _etag of a document as the ETag response header.
+ * Cosmos etags are already quoted, so they are valid strong entity tags.
+ */
+export function setETag(res: Response, entity: { _etag?: string } | undefined): void {
+  if (entity?._etag) {
+    res.set('ETag', entity._etag);
+  }
+}
+
+/**
+ * Check whether an error is a Cosmos DB precondition failure (If-Match mismatch)
+ */
+export function isPreconditionFailed(error: any): boolean {
+  return error?.code === 412;
+}
@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from 'express';
+import { Container } from '@azure/cosmos';
+import { createHash } from 'crypto';
+import { AuthRequest } from '../auth/AuthMiddleware';
+import { IdempotencyRepository } from '../../repositories/IdempotencyRepository';
+import { getCacheInstance } from '../cache/CacheHelpers';
+import { IdempotencyRecord } from '../cache/CacheInterface';
+import { logger } from '../telemetry/logger';
+
+const IDEMPOTENCY_TTL = parseInt(process.env.IDEMPOTENCY_TTL || '86400');
+// Seconds a key stays locked while its first request runs; a crashed instance only blocks retries this long
+const IDEMPOTENCY_IN_PROGRESS_TTL = parseInt(process.env.IDEMPOTENCY_IN_PROGRESS_TTL || '60');
+const IDEMPOTENCY_STORE = process.env.IDEMPOTENCY_STORE === 'cosmos' ? 'cosmos' : 'cache';
+const MAX_KEY_LENGTH = 255;
+
+// Response headers replayed together with the stored body
+const REPLAYED_HEADERS = ['content-type', 'etag', 'location'];
+
+interface IdempotencyStore {
+  get(userId: string, keyHash: string): Promise<IdempotencyRecord | null | undefined>;
+  reserve(userId: string, keyHash: string, record: IdempotencyRecord): Promise<boolean>;
+  save(userId: string, keyHash: string, record: IdempotencyRecord): Promise<void>;
+  release(userId: string, keyHash: string): Promise<void>;
+}
+
+let idempotencyRepo: IdempotencyRepository;
+
+export function initIdempotency(container: Container) {
+  idempotencyRepo = new IdempotencyRepository(container);
+}
+
+/**
+ * Records go to the ICache backend unless IDEMPOTENCY_STORE=cosmos or no cache is connected
+ */
+function getStore(): IdempotencyStore {
+  const cache = getCacheInstance();
+
+  if (IDEMPOTENCY_STORE === 'cache' && cache?.isConnected()) {
+    return {
+      get: (userId, keyHash) => cache.getIdempotencyRecord(`${userId}:${keyHash}`),
+      reserve: (userId, keyHash, record) => cache.reserveIdempotencyRecord(`${userId}:${keyHash}`, record, IDEMPOTENCY_IN_PROGRESS_TTL),
+      save: (userId, keyHash, record) => cache.setIdempotencyRecord(`${userId}:${keyHash}`, record, IDEMPOTENCY_TTL),
+      release: (userId, keyHash) => cache.deleteIdempotencyRecord(`${userId}:${keyHash}`)
+    };
+  }
+
+  return {
+    get: (userId, keyHash) => idempotencyRepo.getRecord(userId, keyHash),
+    reserve: (userId, keyHash, record) => idempotencyRepo.reserveRecord(userId, keyHash, record, IDEMPOTENCY_IN_PROGRESS_TTL),
+    save: (userId, keyHash, record) => idempotencyRepo.saveRecord(userId, keyHash, record, IDEMPOTENCY_TTL),
+    release: (userId, keyHash) => idempotencyRepo.deleteRecord(userId, keyHash)
+  };
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('base64url');
+}
+
+/**
+ * Stored form of a response body: parsed for JSON responses, base64 for anything else
+ */
+function toStoredBody(data: Buffer, contentType: string | undefined): Pick<IdempotencyRecord, 'body' | 'rawBody'> {
+  if (data.length === 0) {
+    return {};
+  }
+  if (contentType && /[/+]json\b/.test(contentType)) {
+    try {
+      return { body: JSON.parse(data.toString('utf8')) };
+    } catch {
+      // Not actually JSON; stored as is
+    }
+  }
+  return { rawBody: data.toString('base64') };
+}
+
+function replay(res: Response, record: IdempotencyRecord) {
+  res.set(record.headers || {});
+  res.set('Idempotent-Replayed', 'true');
+  res.status(record.status!);
+
+  if (record.rawBody !== undefined) {
+    return res.send(Buffer.from(record.rawBody, 'base64'));
+  }
+  return record.body === undefined ? res.end() : res.json(record.body);
+}
+
+/**
+ * Idempotency-Key support for POST routes (must run after verifyJWT and body parsing).
+ *
+ * The first request with a key is executed and its response (status, body, Content-Type,
+ * ETag/Location) stored for IDEMPOTENCY_TTL seconds; retries with the same key and payload
+ * get that response replayed. Reusing a key for a different payload answers 422, and a
+ * retry while the first request is still running answers 409. Keys are scoped per user.
+ * Server errors (5xx) are not stored, and a key whose request never finished (connection
+ * dropped, instance crashed) is released or expires after IDEMPOTENCY_IN_PROGRESS_TTL, so
+ * the request can be retried.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: 'invalid_idempotency_key',
+      message: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`
+    });
+  }
+
+  const userId = (req as AuthRequest).user.userId;
+  const keyHash = hash(key);
+  const fingerprint = hash(JSON.stringify([req.method, req.baseUrl + req.path, req.body ?? null]));
+  const store = getStore();
+
+  try {
+    const reserved = await store.reserve(userId, keyHash, {
+      fingerprint,
+      state: 'in_progress',
+      createdAt: Date.now()
+    });
+
+    if (!reserved) {
+      const record = await store.get(userId, keyHash);
+
+      if (record) {
+        if (record.fingerprint !== fingerprint) {
+          return res.status(422).json({
+            error: 'idempotency_key_reused',
+            message: 'This Idempotency-Key was already used for a different request'
+          });
+        }
+
+        if (record.state === 'in_progress') {
+          res.set('Retry-After', '1');
+          return res.status(409).json({
+            error: 'idempotency_request_in_progress',
+            message: 'A request with this Idempotency-Key is still being processed'
+          });
+        }
+
+        logger.info('Replaying idempotent response', { userId, path: req.path, status: record.status });
+        return replay(res, record);
+      }
+
+      // The store could not reserve or find the key (e.g. cache error); run without replay
+      logger.warn('Idempotency store unavailable, processing request without replay', { userId, path: req.path });
+      return next();
+    }
+  } catch (error) {
+    logger.error('Idempotency check failed', error as Error, { userId, path: req.path });
+    return res.status(500).json({
+      error: 'idempotency_check_failed',
+      message: 'Could not check the Idempotency-Key'
+    });
+  }
+
+  // Collect the body as written, whether sent through res.json, res.send or res.end
+  const chunks: Buffer[] = [];
+  const collect = (chunk: unknown, encoding: unknown) => {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function') return;
+    chunks.push(Buffer.isBuffer(chunk)
+      ? chunk
+      : Buffer.from(chunk as string, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8'));
+  };
+  const write = res.write.bind(res) as (...args: any[]) => boolean;
+  const end = res.end.bind(res) as (...args: any[]) => Response;
+  res.write = ((chunk: unknown, ...args: any[]) => {
+    collect(chunk, args[0]);
+    return write(chunk, ...args);
+  }) as typeof res.write;
+  res.end = ((chunk?: unknown, ...args: any[]) => {
+    collect(chunk, args[0]);
+    return end(chunk, ...args);
+  }) as typeof res.end;
+
+  const onError = (error: unknown) => {
+    logger.error('Failed to store idempotent response', error as Error, { userId, path: req.path });
+  };
+
+  res.on('finish', () => {
+    if (res.statusCode >= 500) {
+      store.release(userId, keyHash).catch(onError);
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+      const value = res.getHeader(name);
+      if (value !== undefined) headers[name] = String(value);
+    }
+
+    // Saving replaces the short in-progress reservation with the full IDEMPOTENCY_TTL
+    store.save(userId, keyHash, {
+      fingerprint,
+      state: 'completed',
+      status: res.statusCode,
+      ...toStoredBody(Buffer.concat(chunks), headers['content-type']),
+      headers,
+      createdAt: Date.now()
+    }).catch(onError);
+  });
+
+  // Connection closed before the response was sent: free the key for a retry
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      store.release(userId, keyHash).catch(onError);
+    }
+  });
+
+  next();
+}
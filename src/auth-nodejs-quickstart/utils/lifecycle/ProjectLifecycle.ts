@@ -0,0 +1,39 @@
+import { Project, ProjectStatus } from '../../models/Project';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['draft', 'active', 'on_hold', 'archived'];
+
+// Projects created before the lifecycle existed have no status and count as active
+export const DEFAULT_PROJECT_STATUS: ProjectStatus = 'active';
+
+// Statuses each status may move to
+const TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  draft: ['active', 'archived'],
+  active: ['on_hold', 'archived'],
+  on_hold: ['active', 'archived'],
+  archived: ['active']
+};
+
+/**
+ * Current lifecycle status of a project
+ */
+export function getProjectStatus(project: Pick<Project, 'status'>): ProjectStatus {
+  return project.status || DEFAULT_PROJECT_STATUS;
+}
+
+/**
+ * Statuses a project in `from` may move to
+ */
+export function getAllowedTransitions(from: ProjectStatus): ProjectStatus[] {
+  return TRANSITIONS[from];
+}
+
+export function canTransition(from: ProjectStatus, to: ProjectStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Archived projects are read-only for everything below owner level
+ */
+export function isReadOnlyStatus(status: ProjectStatus): boolean {
+  return status === 'archived';
+}
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+
+interface ContinuationTokenPayload {
+  c: string;   // Cosmos continuation token
+  q: string;   // Fingerprint of the query the token belongs to
+}
+
+/**
+ * Fingerprint the list parameters (filters, sort) a continuation token was issued for,
+ * so a token cannot be replayed against a different query.
+ */
+export function getQueryFingerprint(params: Record<string, unknown>): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .map(key => [key, params[key] ?? null]);
+
+  return createHash('sha256')
+    .update(JSON.stringify(normalized))
+    .digest('base64url')
+    .substring(0, 16);
+}
+
+/**
+ * Wrap a Cosmos continuation token in an opaque, URL-safe token
+ */
+export function encodeContinuationToken(cosmosToken: string, fingerprint: string): string {
+  const payload: ContinuationTokenPayload = { c: cosmosToken, q: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Unwrap an opaque continuation token back to the Cosmos continuation token.
+ * Throws if the token is malformed or was issued for a different query.
+ */
+export function decodeContinuationToken(token: string, fingerprint: string): string {
+  let payload: ContinuationTokenPayload;
+
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid continuation token');
+  }
+
+  if (!payload || typeof payload.c !== 'string' || typeof payload.q !== 'string') {
+    throw new Error('Invalid continuation token');
+  }
+
+  if (payload.q !== fingerprint) {
+    throw new Error('Continuation token does not match query parameters');
+  }
+
+  return payload.c;
+}
@@ -0,0 +1,349 @@
+import { PatchOperation } from '@azure/cosmos';
+import { FieldChange } from '../../models/ProjectRevision';
+
+export type PatchResult = { operations: PatchOperation[] } | { error: string };
+
+interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: any;
+}
+
+const JSON_PATCH_OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+/**
+ * Convert an RFC 6902 JSON Patch into Cosmos DB patch operations.
+ *
+ * Operations that read the document (test, and the source of move/copy) are evaluated
+ * against `snapshot`, so the caller must make the write conditional on the snapshot's _etag.
+ * Reading a path that an earlier operation in the same patch modified is rejected.
+ */
+export function jsonPatchToOperations(
+  body: unknown,
+  snapshot: Record<string, any>,
+  immutableFields: readonly string[]
+): PatchResult {
+  if (!Array.isArray(body) || body.length === 0) {
+    return { error: 'JSON Patch body must be a non-empty array of operations' };
+  }
+
+  const operations: PatchOperation[] = [];
+  const modified: string[] = [];
+
+  for (const [index, raw] of body.entries()) {
+    const op = raw as JsonPatchOperation;
+    if (!op || typeof op !== 'object' || !JSON_PATCH_OPS.includes(op.op) || typeof op.path !== 'string') {
+      return { error: `Operation ${index} must have a valid op and path` };
+    }
+
+    const path = parsePointer(op.path);
+    if (!path) {
+      return { error: `Operation ${index} has an invalid path: ${op.path}` };
+    }
+
+    const readsFrom = op.op === 'test' ? op.path : op.from;
+    if (op.op === 'move' || op.op === 'copy') {
+      if (typeof op.from !== 'string' || !parsePointer(op.from)) {
+        return { error: `Operation ${index} (${op.op}) requires a valid from path` };
+      }
+    }
+    if (readsFrom !== undefined && modified.some(m => overlaps(m, readsFrom))) {
+      return { error: `Operation ${index} reads ${readsFrom}, which an earlier operation modifies` };
+    }
+
+    if (op.op !== 'test' && isImmutable(op.path, immutableFields)) {
+      return { error: `Field ${op.path} cannot be modified` };
+    }
+    if (op.op === 'move' && isImmutable(op.from!, immutableFields)) {
+      return { error: `Field ${op.from} cannot be modified` };
+    }
+
+    if ((op.op === 'add' || op.op === 'replace' || op.op === 'test') && !('value' in op)) {
+      return { error: `Operation ${index} (${op.op}) requires a value` };
+    }
+
+    switch (op.op) {
+      case 'test': {
+        const current = getAtPointer(snapshot, op.path);
+        if (!current.found || !isDeepEqual(current.value, op.value)) {
+          return { error: `Test failed at ${op.path}` };
+        }
+        break;
+      }
+      case 'add':
+      case 'replace':
+        operations.push({ op: op.op, path: op.path, value: op.value });
+        modified.push(op.path);
+        break;
+      case 'remove':
+        operations.push({ op: 'remove', path: op.path });
+        modified.push(op.path);
+        break;
+      case 'copy':
+      case 'move': {
+        const source = getAtPointer(snapshot, op.from!);
+        if (!source.found) {
+          return { error: `Operation ${index} (${op.op}) source ${op.from} does not exist` };
+        }
+        operations.push({ op: 'add', path: op.path, value: source.value });
+        modified.push(op.path);
+        if (op.op === 'move') {
+          operations.push({ op: 'remove', path: op.from! });
+          modified.push(op.from!);
+        }
+        break;
+      }
+    }
+  }
+
+  return { operations };
+}
+
+/**
+ * Convert an RFC 7396 JSON Merge Patch into Cosmos DB patch operations.
+ *
+ * Nested objects are merged field by field where the stored document already has an
+ * object at that path; anything else is set as a whole. `null` removes a field. A patch
+ * that leaves the document as it is yields no operations.
+ */
+export function mergePatchToOperations(
+  body: unknown,
+  snapshot: Record<string, any>,
+  immutableFields: readonly string[]
+): PatchResult {
+  if (!isPlainObject(body)) {
+    return { error: 'Merge Patch body must be a JSON object' };
+  }
+
+  const blocked = Object.keys(body).find(key => isImmutable(`/${escapeSegment(key)}`, immutableFields));
+  if (blocked) {
+    return { error: `Field /${blocked} cannot be modified` };
+  }
+
+  const operations: PatchOperation[] = [];
+  collectMergeOperations(snapshot, body, '', operations);
+
+  return { operations };
+}
+
+/**
+ * Apply Cosmos DB patch operations to a copy of a document, the way Cosmos would.
+ * Lets a caller know the patched document before writing it. Throws an error with
+ * code 400 when an operation cannot be applied (Cosmos answers 400 in the same case).
+ */
+export function applyPatchOperations<T extends Record<string, any>>(doc: T, operations: PatchOperation[]): T {
+  const result = structuredClone(doc);
+
+  for (const operation of operations) {
+    const segments = parsePointer(operation.path);
+    if (!segments || segments.length === 0 || segments[0] === '') {
+      throw patchError(`Invalid path ${operation.path}`);
+    }
+
+    const key = segments[segments.length - 1];
+    const parent = getAtSegments(result, segments.slice(0, -1));
+    if (!parent.found || parent.value === null || typeof parent.value !== 'object') {
+      throw patchError(`Parent of ${operation.path} does not exist`);
+    }
+
+    const target = parent.value;
+    const exists = Array.isArray(target) ? Number(key) < target.length : key in target;
+    const value = 'value' in operation ? structuredClone(operation.value) : undefined;
+
+    switch (operation.op) {
+      case 'add':
+        if (Array.isArray(target)) {
+          target.splice(key === '-' ? target.length : Number(key), 0, value);
+        } else {
+          target[key] = value;
+        }
+        break;
+      case 'set':
+        if (Array.isArray(target) && key === '-') {
+          target.push(value);
+        } else {
+          target[key] = value;
+        }
+        break;
+      case 'replace':
+        if (!exists) throw patchError(`${operation.path} does not exist`);
+        target[key] = value;
+        break;
+      case 'remove':
+        if (!exists) throw patchError(`${operation.path} does not exist`);
+        if (Array.isArray(target)) {
+          target.splice(Number(key), 1);
+        } else {
+          delete target[key];
+        }
+        break;
+      case 'incr':
+        if (exists && typeof target[key] !== 'number') throw patchError(`${operation.path} is not a number`);
+        target[key] = (exists ? target[key] : 0) + value;
+        break;
+      default:
+        throw patchError(`Unsupported operation ${(operation as PatchOperation).op}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * List the fields that differ between two versions of a document as JSON Pointer paths.
+ * Nested objects are compared field by field; arrays and other values as a whole.
+ * Top-level fields in `ignoredFields` are skipped.
+ */
+export function diffDocuments(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  ignoredFields: readonly string[] = []
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  collectChanges(before, after, '', changes, ignoredFields);
+  return changes;
+}
+
+/**
+ * Patch operations that turn the `after` side of a set of changes back into the `before` side
+ */
+export function undoChangesOperations(changes: FieldChange[]): PatchOperation[] {
+  return changes.map(change =>
+    change.before === undefined
+      ? { op: 'remove', path: change.path }
+      : { op: 'set', path: change.path, value: change.before }
+  );
+}
+
+function collectChanges(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  basePath: string,
+  changes: FieldChange[],
+  ignoredFields: readonly string[]
+): void {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (!basePath && ignoredFields.includes(key)) continue;
+
+    const path = `${basePath}/${escapeSegment(key)}`;
+    const from = before[key];
+    const to = after[key];
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      collectChanges(from, to, path, changes, ignoredFields);
+    } else if (!isDeepEqual(from, to)) {
+      changes.push({
+        path,
+        ...(from !== undefined && { before: from }),
+        ...(to !== undefined && { after: to })
+      });
+    }
+  }
+}
+
+function patchError(message: string): Error {
+  const error: any = new Error(message);
+  error.code = 400;
+  return error;
+}
+
+function collectMergeOperations(
+  target: Record<string, any> | undefined,
+  patch: Record<string, any>,
+  basePath: string,
+  operations: PatchOperation[]
+): void {
+  for (const [key, value] of Object.entries(patch)) {
+    const path = `${basePath}/${escapeSegment(key)}`;
+    const current = target?.[key];
+
+    if (value === null) {
+      if (target && key in target) {
+        operations.push({ op: 'remove', path });
+      }
+    } else if (isPlainObject(value) && isPlainObject(current)) {
+      collectMergeOperations(current, value, path, operations);
+    } else {
+      const stored = isPlainObject(value) ? stripNulls(value) : value;
+      // Values already stored are left out, so a patch repeating them writes nothing
+      if (!isDeepEqual(current, stored)) {
+        operations.push({ op: 'set', path, value: stored });
+      }
+    }
+  }
+}
+
+/**
+ * Remove null members recursively (a merge patch null never ends up stored)
+ */
+function stripNulls(value: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, member] of Object.entries(value)) {
+    if (member === null) continue;
+    result[key] = isPlainObject(member) ? stripNulls(member) : member;
+  }
+  return result;
+}
+
+function isImmutable(pointer: string, immutableFields: readonly string[]): boolean {
+  const [field] = parsePointer(pointer) || [''];
+  return field === '' || field.startsWith('_') || immutableFields.includes(field);
+}
+
+/**
+ * Split a JSON Pointer into unescaped segments. Returns undefined if invalid.
+ */
+export function parsePointer(pointer: string): string[] | undefined {
+  if (!pointer.startsWith('/')) {
+    return undefined;
+  }
+  return pointer
+    .substring(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * True if one pointer is equal to, or an ancestor of, the other
+ */
+function overlaps(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+function getAtPointer(doc: any, pointer: string): { found: boolean; value?: any } {
+  return getAtSegments(doc, parsePointer(pointer) || []);
+}
+
+function getAtSegments(doc: any, segments: string[]): { found: boolean; value?: any } {
+  let current = doc;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return { found: false };
+    }
+    current = current[segment];
+  }
+  return { found: true, value: current };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isDeepEqual(a[key], b[key]));
+  }
+  return false;
+}
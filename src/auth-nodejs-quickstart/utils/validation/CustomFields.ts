@@ -0,0 +1,86 @@
+import { CustomFieldDefinition } from '../../models/CustomField';
+import { FieldError, validateValue } from './SchemaValidator';
+
+/**
+ * JSON Schema of Project.customFields for a client, built from its field definitions.
+ * Keys without a definition are rejected and required fields must be present.
+ */
+export function toCustomFieldsSchema(definitions: CustomFieldDefinition[]): any {
+  return {
+    type: 'object',
+    additionalProperties: false,
+    required: definitions.filter(d => d.required).map(d => d.key),
+    properties: Object.fromEntries(definitions.map(d => [d.key, toValueSchema(d)]))
+  };
+}
+
+function toValueSchema(definition: CustomFieldDefinition): any {
+  const schema: any = definition.type === 'date'
+    ? { type: 'string', format: 'date' }
+    : { type: definition.type };
+
+  if (definition.values && definition.values.length > 0) {
+    schema.enum = definition.values;
+  }
+  return schema;
+}
+
+/**
+ * Check that the allowed values of a definition match its type and are unique
+ */
+export function validateDefinitionValues(
+  definition: Pick<CustomFieldDefinition, 'type' | 'values'>
+): FieldError[] {
+  if (definition.values === undefined) {
+    return [];
+  }
+  if (definition.type === 'boolean') {
+    return [{ field: 'values', message: 'cannot be set for boolean fields' }];
+  }
+
+  const schema = toValueSchema({ type: definition.type } as CustomFieldDefinition);
+  const errors = definition.values.flatMap((value, i) => validateValue(schema, value, `values[${i}]`));
+  if (new Set(definition.values).size !== definition.values.length) {
+    errors.push({ field: 'values', message: 'must not contain duplicates' });
+  }
+  return errors;
+}
+
+/**
+ * Validate the custom field values of a project against its client's definitions
+ */
+export function validateCustomFields(
+  definitions: CustomFieldDefinition[],
+  customFields: Record<string, unknown> | undefined
+): FieldError[] {
+  return validateValue(toCustomFieldsSchema(definitions), customFields ?? {}, 'customFields');
+}
+
+/**
+ * Convert a query string value to the type of a custom field for filtering.
+ * Returns undefined when the value is not valid for the field.
+ */
+export function parseCustomFieldValue(
+  definition: CustomFieldDefinition,
+  raw: string
+): string | number | boolean | undefined {
+  let value: string | number | boolean | undefined = raw;
+
+  if (definition.type === 'number') {
+    value = raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : undefined;
+  } else if (definition.type === 'boolean') {
+    value = raw === 'true' ? true : raw === 'false' ? false : undefined;
+  }
+
+  if (value === undefined || validateValue(toValueSchema(definition), value).length > 0) {
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Tags are stored trimmed and lower-cased, without duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(t => t.trim().toLowerCase()).filter(t => t !== ''))];
+}
@@ -0,0 +1,229 @@
+import { Request, Response, NextFunction } from 'express';
+import { schemas } from '../../schemas';
+import { logger } from '../telemetry/logger';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a value against one of the OpenAPI component schemas in schemas.ts.
+ * Supports the subset of JSON Schema used there: type, required, properties,
+ * additionalProperties: false, enum, format (email, date, date-time), pattern,
+ * minLength/maxLength, minimum/maximum, items, uniqueItems, nullable and $ref.
+ */
+export function validateSchema(schemaName: string, value: unknown): FieldError[] {
+  return validateValue({ $ref: `#/components/schemas/${schemaName}` }, value);
+}
+
+/**
+ * Validate a value against an inline schema built at runtime (e.g. from custom field
+ * definitions). Errors are reported under the given field prefix.
+ */
+export function validateValue(schema: any, value: unknown, field = ''): FieldError[] {
+  const errors: FieldError[] = [];
+  validateNode(schema, value, field, errors);
+  return errors;
+}
+
+/**
+ * Validate a value against the schema of a nested path (JSON Pointer segments) within a
+ * component schema. Unknown paths are reported as errors when the schema is closed.
+ */
+export function validateSchemaAtPath(
+  schemaName: string,
+  segments: string[],
+  value: unknown
+): FieldError[] {
+  let schema = resolveSchema({ $ref: `#/components/schemas/${schemaName}` });
+  const field = segments.join('.');
+
+  for (const segment of segments) {
+    if (schema.type === 'array') {
+      schema = resolveSchema(schema.items || {});
+    } else if (hasProperty(schema.properties, segment)) {
+      schema = resolveSchema(schema.properties[segment]);
+    } else if (schema.additionalProperties === false) {
+      return [{ field, message: 'is not an allowed property' }];
+    } else {
+      return [];
+    }
+  }
+
+  const errors: FieldError[] = [];
+  validateNode(schema, value, field, errors);
+  return errors;
+}
+
+/**
+ * Express middleware that validates req.body against a component schema
+ * and answers 400 with field-level errors
+ */
+export function validateBody(schemaName: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors = validateSchema(schemaName, req.body);
+
+    if (errors.length > 0) {
+      logger.warn('Request validation failed', { schema: schemaName, errors });
+      return sendValidationErrors(res, errors);
+    }
+
+    next();
+  };
+}
+
+/**
+ * Answer 400 with field-level validation errors
+ */
+export function sendValidationErrors(res: Response, errors: FieldError[]) {
+  return res.status(400).json({
+    error: 'validation_failed',
+    message: 'Request body is invalid',
+    details: errors
+  });
+}
+
+function resolveSchema(schema: any): any {
+  while (schema?.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    if (!schemas[name]) {
+      throw new Error(`Unknown schema: ${schema.$ref}`);
+    }
+    schema = schemas[name];
+  }
+  return schema;
+}
+
+function validateNode(
+  rawSchema: any,
+  value: unknown,
+  field: string,
+  errors: FieldError[]
+): void {
+  const schema = resolveSchema(rawSchema);
+  const name = field || 'body';
+
+  if (value === null) {
+    if (!schema.nullable) {
+      errors.push({ field: name, message: 'must not be null' });
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ field: name, message: 'must be an object' });
+        return;
+      }
+      const obj = value as Record<string, unknown>;
+      const properties = schema.properties || {};
+
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined) {
+          errors.push({ field: join(field, key), message: 'is required' });
+        }
+      }
+
+      for (const [key, member] of Object.entries(obj)) {
+        if (member === undefined) continue;
+        if (hasProperty(properties, key)) {
+          validateNode(properties[key], member, join(field, key), errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push({ field: join(field, key), message: 'is not an allowed property' });
+        }
+      }
+      return;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ field: name, message: 'must be an array' });
+        return;
+      }
+      if (schema.items) {
+        value.forEach((item, i) => validateNode(schema.items, item, `${name}[${i}]`, errors));
+      }
+      if (schema.uniqueItems) {
+        // Items are compared by their JSON form, which is enough for the scalars used here
+        const seen = new Set<string>();
+        value.forEach((item, i) => {
+          const key = JSON.stringify(item);
+          if (seen.has(key)) {
+            errors.push({ field: `${name}[${i}]`, message: 'must not repeat an earlier item' });
+          }
+          seen.add(key);
+        });
+      }
+      return;
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ field: name, message: 'must be a string' });
+        return;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push({ field: name, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push({ field: name, message: `must be at most ${schema.maxLength} characters` });
+      }
+      if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+        errors.push({ field: name, message: 'must be a valid email address' });
+      }
+      if (schema.format === 'date' && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+        errors.push({ field: name, message: 'must be a date (YYYY-MM-DD)' });
+      }
+      if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        errors.push({ field: name, message: 'must be an ISO 8601 date-time' });
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push({ field: name, message: `must match pattern ${schema.pattern}` });
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ field: name, message: 'must be a number' });
+        return;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push({ field: name, message: 'must be an integer' });
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ field: name, message: `must be >= ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ field: name, message: `must be <= ${schema.maximum}` });
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push({ field: name, message: 'must be a boolean' });
+        return;
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field: name, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+}
+
+/**
+ * Own property of a schema's properties; keys such as constructor or __proto__ would
+ * otherwise resolve to Object.prototype and pass additionalProperties: false
+ */
+function hasProperty(properties: Record<string, any> | undefined, key: string): boolean {
+  return !!properties && Object.prototype.hasOwnProperty.call(properties, key);
+}
+
+function join(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}